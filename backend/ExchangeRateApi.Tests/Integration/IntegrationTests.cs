@@ -240,6 +240,22 @@ public class IntegrationTests : IClassFixture<WebApplicationFactory<Program>>, I
         Assert.True(stopwatch.ElapsedMilliseconds < 10000, "Response time should be under 10 seconds");
     }
 
+    [Fact]
+    public async Task CorrelationId_IsEchoedOnResponses()
+    {
+        // The id the frontend sends is what it shows as the reference of a failed request
+
+        // Act
+        var request = new HttpRequestMessage(HttpMethod.Get, "/api/v1/health");
+        request.Headers.Add("X-Correlation-Id", "3f2b8c1e-7d4a-4e5f-9a6b-0c1d2e3f4a5b");
+        var response = await _client.SendAsync(request);
+        var withoutId = await _client.GetAsync("/api/v1/health");
+
+        // Assert
+        Assert.Equal("3f2b8c1e-7d4a-4e5f-9a6b-0c1d2e3f4a5b", response.Headers.GetValues("X-Correlation-Id").Single());
+        Assert.False(string.IsNullOrEmpty(withoutId.Headers.GetValues("X-Correlation-Id").Single()));
+    }
+
     public void Dispose()
     {
         _client?.Dispose();
@@ -0,0 +1,44 @@
+using System.Text.RegularExpressions;
+
+namespace ExchangeRateApi.Middleware;
+
+/// <summary>
+/// Reads the X-Correlation-Id header sent by the frontend, adds it to the logging scope of the request
+/// and echoes it on the response, so a failure reported in the UI can be found in the logs.
+/// Requests without a usable id get the ASP.NET trace identifier instead.
+/// </summary>
+public class CorrelationIdMiddleware
+{
+    public const string HeaderName = "X-Correlation-Id";
+
+    // Limits what a client can write into the logs
+    private static readonly Regex ValidCorrelationId = new("^[A-Za-z0-9._:-]{1,64}$", RegexOptions.Compiled);
+
+    private readonly RequestDelegate _next;
+    private readonly ILogger<CorrelationIdMiddleware> _logger;
+
+    public CorrelationIdMiddleware(RequestDelegate next, ILogger<CorrelationIdMiddleware> logger)
+    {
+        _next = next;
+        _logger = logger;
+    }
+
+    public async Task InvokeAsync(HttpContext context)
+    {
+        var requested = context.Request.Headers[HeaderName].ToString();
+        var correlationId = ValidCorrelationId.IsMatch(requested) ? requested : context.TraceIdentifier;
+
+        // Also used as traceId in the error responses of GlobalExceptionHandlingMiddleware
+        context.TraceIdentifier = correlationId;
+        context.Response.OnStarting(() =>
+        {
+            context.Response.Headers[HeaderName] = correlationId;
+            return Task.CompletedTask;
+        });
+
+        using (_logger.BeginScope("CorrelationId:{CorrelationId}", correlationId))
+        {
+            await _next(context);
+        }
+    }
+}
@@ -23,7 +23,7 @@ public class GlobalExceptionHandlingMiddleware
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "An unhandled exception occurred while processing the request");
+            _logger.LogError(ex, "An unhandled exception occurred while processing request {CorrelationId}", context.TraceIdentifier);
             await HandleExceptionAsync(context, ex);
         }
     }
@@ -76,6 +76,7 @@ builder.Services.AddCors(options =>
         policy.WithOrigins(corsOrigins)
               .AllowAnyMethod()
               .AllowAnyHeader()
+              .WithExposedHeaders("Retry-After", CorrelationIdMiddleware.HeaderName)
               .AllowCredentials();
     });
     
@@ -84,7 +85,8 @@ builder.Services.AddCors(options =>
     {
         policy.AllowAnyOrigin()
               .AllowAnyMethod()
-              .AllowAnyHeader();
+              .AllowAnyHeader()
+              .WithExposedHeaders("Retry-After", CorrelationIdMiddleware.HeaderName);
     });
 });
 
@@ -119,6 +121,9 @@ if (app.Environment.IsDevelopment())
     app.MapOpenApi();
 }
 
+// Tag every log entry and response with the caller's correlation id, including unhandled failures
+app.UseMiddleware<CorrelationIdMiddleware>();
+
 // Add global exception handling middleware
 app.UseMiddleware<GlobalExceptionHandlingMiddleware>();
 
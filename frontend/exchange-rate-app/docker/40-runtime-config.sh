@@ -0,0 +1,30 @@
+#!/bin/sh
+# Writes the runtime configuration from environment variables when the container starts,
+# so the same image can be promoted from staging to production.
+set -e
+
+CONFIG_FILE=/usr/share/nginx/html/config.json
+
+cat > "$CONFIG_FILE" <<JSON
+{
+  "apiBaseUrl": "${API_BASE_URL:-/api}",
+  "apiVersion": "${API_VERSION:-v1.0}",
+  "responseValidation": "${RESPONSE_VALIDATION:-lenient}",
+  "cache": {
+    "persist": ${CACHE_PERSIST:-true},
+    "recheckIntervalMinutes": ${CACHE_RECHECK_INTERVAL_MINUTES:-5}
+  },
+  "autoRefresh": {
+    "enabled": ${AUTO_REFRESH_ENABLED:-false},
+    "intervalMinutes": ${AUTO_REFRESH_INTERVAL_MINUTES:-5},
+    "autoApply": ${AUTO_REFRESH_APPLY:-false}
+  },
+  "features": {
+    "favorites": ${FEATURE_FAVORITES:-true},
+    "export": ${FEATURE_EXPORT:-true},
+    "healthMonitoring": ${FEATURE_HEALTH_MONITORING:-true}
+  }
+}
+JSON
+
+echo "Runtime configuration written to $CONFIG_FILE (API base URL: ${API_BASE_URL:-/api})"
@@ -1,3 +1,5 @@
+// Generates the build-time environment files. The API settings here are only the fallback for
+// settings missing from public/config.json, which is read at startup and replaced per deployment.
 const fs = require('fs');
 const path = require('path');
 
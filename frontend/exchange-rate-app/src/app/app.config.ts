@@ -1,13 +1,27 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners } from '@angular/core';
-import { provideRouter } from '@angular/router';
-import { provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+import { ApplicationConfig, inject, provideAppInitializer, provideBrowserGlobalErrorListeners } from '@angular/core';
+import { provideRouter, TitleStrategy } from '@angular/router';
+import { provideHttpClient, withInterceptors, withInterceptorsFromDi } from '@angular/common/http';
 
 import { routes } from './app.routes';
+import { correlationIdInterceptor } from './interceptors/correlation-id.interceptor';
+import { timingInterceptor } from './interceptors/timing.interceptor';
+import { retryInterceptor } from './interceptors/retry.interceptor';
+import { AppConfigService } from './services/app-config.service';
+import { APP_CONFIG } from './utils/app-config';
+import { TranslatedTitleStrategy } from './i18n/translated-title.strategy';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
-    provideHttpClient(withInterceptorsFromDi())
+    { provide: TitleStrategy, useClass: TranslatedTitleStrategy },
+    // Runtime configuration has to be in place before any service reads APP_CONFIG
+    provideAppInitializer(() => inject(AppConfigService).load()),
+    { provide: APP_CONFIG, useFactory: () => inject(AppConfigService).config },
+    provideHttpClient(
+      withInterceptorsFromDi(),
+      // Outermost first: one correlation id per logical request, timing includes retries
+      withInterceptors([correlationIdInterceptor, timingInterceptor, retryInterceptor])
+    )
   ]
 };
@@ -1,3 +1,19 @@
 import { Routes } from '@angular/router';
+import { ExchangeRateComponent } from './components/exchange-rate/exchange-rate.component';
+import { RateChartComponent } from './components/rate-chart/rate-chart.component';
+import { RateCompareComponent } from './components/rate-compare/rate-compare.component';
+import { RateReportComponent } from './components/rate-report/rate-report.component';
+import { BatchConvertComponent } from './components/batch-convert/batch-convert.component';
+import { RateAlertsComponent } from './components/rate-alerts/rate-alerts.component';
 
-export const routes: Routes = [];
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', redirectTo: 'rates' },
+  { path: 'rates', component: ExchangeRateComponent, title: 'title.rates' },
+  { path: 'rates/:date', component: ExchangeRateComponent, title: 'title.rates' },
+  { path: 'chart', component: RateChartComponent, title: 'title.chart' },
+  { path: 'compare', component: RateCompareComponent, title: 'title.compare' },
+  { path: 'averages', component: RateReportComponent, title: 'title.report' },
+  { path: 'batch', component: BatchConvertComponent, title: 'title.batch' },
+  { path: 'alerts', component: RateAlertsComponent, title: 'title.alerts' },
+  { path: '**', redirectTo: 'rates' }
+];
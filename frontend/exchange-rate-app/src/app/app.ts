@@ -1,13 +1,29 @@
-import { Component, signal } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
-import { ExchangeRateComponent } from './components/exchange-rate/exchange-rate.component';
+import { Component, OnDestroy, OnInit, signal } from '@angular/core';
+import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+import { HealthBannerComponent } from './components/health-banner/health-banner.component';
+import { TranslatePipe } from './pipes/translate.pipe';
+import { TranslationService } from './services/translation.service';
+import { AlertService } from './services/alert.service';
+import { LANGUAGES } from './i18n/i18n';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, ExchangeRateComponent],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, HealthBannerComponent, TranslatePipe],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
-export class App {
+export class App implements OnInit, OnDestroy {
   protected readonly title = signal('Exchange Rate Display');
+  protected readonly languages = LANGUAGES;
+
+  constructor(protected translation: TranslationService, protected alertService: AlertService) {}
+
+  ngOnInit(): void {
+    // Alerts are checked on every page, not only while the alerts page is open
+    this.alertService.start();
+  }
+
+  ngOnDestroy(): void {
+    this.alertService.stop();
+  }
 }
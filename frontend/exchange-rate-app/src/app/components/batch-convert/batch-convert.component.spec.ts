@@ -0,0 +1,59 @@
+import { of, throwError } from 'rxjs';
+import { BatchConvertComponent } from './batch-convert.component';
+import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { TranslationService } from '../../services/translation.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { environment } from '../../../environments/environment';
+import { DEFAULT_APP_CONFIG } from '../../utils/app-config';
+
+// Simple unit test without Angular TestBed, going through the real ExchangeRateService
+describe('BatchConvertComponent', () => {
+  const apiUrl = `${environment.apiBaseUrl}/v1.0/exchange-rates`;
+  let mockHttpClient: { get: ReturnType<typeof vi.fn> };
+  let component: BatchConvertComponent;
+  // Persistence and health tracking are covered by their own specs
+  const mockStorage = {
+    read: vi.fn().mockResolvedValue(null),
+    write: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(undefined)
+  };
+  const mockHealth = { recordRatesResult: vi.fn() };
+
+  const createResponse = (date: string): ExchangeRateResponse => ({
+    date: `${date}T00:00:00`,
+    sequenceNumber: 236,
+    rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 }]
+  });
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: vi.fn().mockImplementation((url: string) => of(createResponse(url.substring(apiUrl.length + 1))))
+    };
+    component = new BatchConvertComponent(
+      new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any),
+      new TranslationService()
+    );
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
+  });
+
+  it('should convert a Saturday invoice at the fixing of the Friday before', () => {
+    component.onInputChange('Date;Amount;Currency\n6. 12. 2025;100;EUR');
+    component.convert();
+
+    expect(component.error()).toBe('');
+    expect(component.lines()[0]).toEqual(expect.objectContaining({ fixingDate: '2025-12-05', czkAmount: 2430, issue: null }));
+  });
+
+  it('should fail the batch instead of flagging a Saturday invoice when the rates cannot be looked up', () => {
+    mockHttpClient.get.mockReturnValue(throwError(() => ({ status: 503, message: 'Service Unavailable', error: null })));
+    component.onInputChange('2025-12-06;100;EUR');
+    component.convert();
+
+    expect(component.lines()).toEqual([]);
+    expect(component.error()).toBe(new TranslationService().translate('error.serviceUnavailable'));
+    expect(component.isConverting()).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { Component, OnDestroy, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable, Subscription, catchError, from, map, mergeMap, of, throwError, toArray } from 'rxjs';
+import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { ExchangeRateError } from '../../models/exchange-rate-error';
+import {
+  BatchIssue,
+  ConvertedLine,
+  convertedLinesToCsv,
+  convertInvoiceLines,
+  lookupDates,
+  parseInvoiceLines
+} from '../../utils/batch-conversion';
+import { CSV_BYTE_ORDER_MARK, CSV_PRESETS, exportMimeType } from '../../utils/rate-export';
+import { downloadTextFile } from '../../utils/download';
+import { todayIsoDate } from '../../utils/date-utils';
+import { TranslationService } from '../../services/translation.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+import { MessageKey } from '../../i18n/i18n';
+
+const LOOKUP_CONCURRENCY = 4;
+const ISSUE_LABELS: Record<BatchIssue, MessageKey> = {
+  invalidDate: 'batch.issue.invalidDate',
+  invalidAmount: 'batch.issue.invalidAmount',
+  futureDate: 'batch.issue.futureDate',
+  noFixing: 'batch.issue.noFixing',
+  unknownCurrency: 'batch.issue.unknownCurrency'
+};
+
+@Component({
+  selector: 'app-batch-convert',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocaleNumberPipe, LocaleDatePipe],
+  templateUrl: './batch-convert.component.html',
+  styleUrl: './batch-convert.component.css'
+})
+export class BatchConvertComponent implements OnDestroy {
+  readonly issueLabels = ISSUE_LABELS;
+  readonly csvPresets = CSV_PRESETS;
+
+  input = signal<string>('');
+  lines = signal<ConvertedLine[]>([]);
+  csvPresetId = signal<string>(CSV_PRESETS[0].id);
+  isConverting = signal<boolean>(false);
+  // A message key or the failed request, translated when read
+  private failure = signal<Error | MessageKey | null>(null);
+  error = computed(() => {
+    const failure = this.failure();
+    if (failure === null) {
+      return '';
+    }
+    return typeof failure === 'string'
+      ? this.translation.translate(failure)
+      : this.translation.describeError(failure);
+  });
+
+  flaggedCount = computed(() => this.lines().filter(line => line.issue !== null).length);
+  totalCzk = computed(() => this.lines().reduce((total, line) => total + (line.czkAmount ?? 0), 0));
+
+  private convertSubscription: Subscription | null = null;
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private translation: TranslationService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.convertSubscription?.unsubscribe();
+  }
+
+  onInputChange(value: string): void {
+    this.input.set(value);
+  }
+
+  async onFileSelected(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+    this.input.set(await file.text());
+    // Allow the same file to be chosen again after editing it
+    input.value = '';
+    this.convert();
+  }
+
+  convert(): void {
+    const lines = parseInvoiceLines(this.input());
+    this.convertSubscription?.unsubscribe();
+    if (lines.length === 0) {
+      this.lines.set([]);
+      this.failure.set('batch.empty');
+      return;
+    }
+
+    this.isConverting.set(true);
+    this.failure.set(null);
+
+    this.convertSubscription = this.applicableFixings(lookupDates(lines)).subscribe({
+      next: fixings => {
+        this.lines.set(convertInvoiceLines(lines, fixings));
+        this.isConverting.set(false);
+      },
+      error: (error: Error) => {
+        this.lines.set([]);
+        this.failure.set(error);
+        this.isConverting.set(false);
+      }
+    });
+  }
+
+  clear(): void {
+    this.convertSubscription?.unsubscribe();
+    this.input.set('');
+    this.lines.set([]);
+    this.failure.set(null);
+    this.isConverting.set(false);
+  }
+
+  onCsvPresetChange(value: string): void {
+    this.csvPresetId.set(value);
+  }
+
+  download(): void {
+    const preset = CSV_PRESETS.find(item => item.id === this.csvPresetId()) ?? CSV_PRESETS[0];
+    const content = convertedLinesToCsv(this.lines(), preset.options);
+    downloadTextFile(CSV_BYTE_ORDER_MARK + content, `cnb-batch-conversion-${todayIsoDate()}.csv`, exportMimeType('csv'));
+  }
+
+  /**
+   * The fixing that applies on each date, null for dates without one; any other failure fails the batch
+   * rather than flagging every line
+   */
+  private applicableFixings(dates: string[]): Observable<Map<string, ExchangeRateResponse | null>> {
+    return from(dates).pipe(
+      mergeMap(
+        date => this.exchangeRateService.getEffectiveFixing(date).pipe(
+          map((fixing): [string, ExchangeRateResponse | null] => [date, fixing]),
+          catchError((error: Error) => error instanceof ExchangeRateError && error.kind === 'not-found'
+            ? of<[string, null]>([date, null])
+            : throwError(() => error))
+        ),
+        LOOKUP_CONCURRENCY
+      ),
+      toArray(),
+      map(entries => new Map(entries))
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Component, computed, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ExchangeRate } from '../../models/exchange-rate.interface';
+import { BASE_CURRENCY_CODE, convertAmount, crossRate } from '../../utils/currency-conversion';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+
+@Component({
+  selector: 'app-currency-converter',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe, LocaleNumberPipe],
+  templateUrl: './currency-converter.component.html',
+  styleUrl: './currency-converter.component.css'
+})
+export class CurrencyConverterComponent {
+  rates = input<ExchangeRate[]>([]);
+
+  // The text as typed, so a decimal comma or a trailing separator is not rewritten while typing
+  amountText = signal<string>('100');
+  amount = computed(() => {
+    const parsed = Number(this.amountText().replace(/\s/g, '').replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : 0;
+  });
+  fromCode = signal<string>('EUR');
+  toCode = signal<string>(BASE_CURRENCY_CODE);
+
+  // CZK first, then every quoted currency in alphabetical order
+  currencyCodes = computed(() => [
+    BASE_CURRENCY_CODE,
+    ...this.rates().map(rate => rate.code).sort((a, b) => a.localeCompare(b))
+  ]);
+
+  // Fall back to CZK when the selected currency is not quoted for the current date
+  effectiveFrom = computed(() => this.resolveCode(this.fromCode()));
+  effectiveTo = computed(() => this.resolveCode(this.toCode()));
+
+  result = computed(() =>
+    convertAmount(this.amount(), this.effectiveFrom(), this.effectiveTo(), this.rates())
+  );
+
+  unitRate = computed(() => crossRate(this.effectiveFrom(), this.effectiveTo(), this.rates()));
+
+  onAmountChange(value: string): void {
+    this.amountText.set(value);
+  }
+
+  onFromChange(code: string): void {
+    this.fromCode.set(code);
+  }
+
+  onToChange(code: string): void {
+    this.toCode.set(code);
+  }
+
+  swap(): void {
+    const from = this.effectiveFrom();
+    this.fromCode.set(this.effectiveTo());
+    this.toCode.set(from);
+  }
+
+  private resolveCode(code: string): string {
+    return this.currencyCodes().includes(code) ? code : BASE_CURRENCY_CODE;
+  }
+}
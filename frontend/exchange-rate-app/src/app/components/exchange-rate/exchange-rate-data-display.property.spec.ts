@@ -194,7 +194,7 @@ describe('Frontend Data Display Property Tests', () => {
     fc.assert(fc.property(
       // Generate edge cases: empty arrays and single items
       fc.oneof(
-        fc.constant([]), // Empty array
+        fc.constant<ExchangeRate[]>([]), // Empty array
         fc.array(
           fc.record({
             country: fc.string({ minLength: 1, maxLength: 50 }).filter(s => s.trim().length > 0),
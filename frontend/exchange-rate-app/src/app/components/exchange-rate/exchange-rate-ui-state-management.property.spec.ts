@@ -198,7 +198,7 @@ describe('UI State Management Property Tests', () => {
       // Generate various success scenarios
       fc.record({
         response: fc.record({
-          date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31') }).map(d => d.toISOString().split('T')[0]),
+          date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }).map(d => d.toISOString().split('T')[0]),
           sequenceNumber: fc.integer({ min: 1, max: 999 }),
           rates: fc.array(
             fc.record({
@@ -259,9 +259,9 @@ describe('UI State Management Property Tests', () => {
       // Generate empty data scenarios
       fc.record({
         response: fc.record({
-          date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31') }).map(d => d.toISOString().split('T')[0]),
+          date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }).map(d => d.toISOString().split('T')[0]),
           sequenceNumber: fc.integer({ min: 1, max: 999 }),
-          rates: fc.constant([]) // Empty rates array
+          rates: fc.constant<ExchangeRate[]>([]) // Empty rates array
         }),
         initialState: fc.record({
           wasLoading: fc.boolean(),
@@ -328,7 +328,7 @@ describe('UI State Management Property Tests', () => {
           fc.record({
             type: fc.constant('success'),
             response: fc.record({
-              date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31') }).map(d => d.toISOString().split('T')[0]),
+              date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }).map(d => d.toISOString().split('T')[0]),
               sequenceNumber: fc.integer({ min: 1, max: 999 }),
               rates: fc.array(
                 fc.record({
@@ -445,9 +445,9 @@ describe('UI State Management Property Tests', () => {
         fc.record({
           type: fc.constant('emptyData'),
           response: fc.record({
-            date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31') }).map(d => d.toISOString().split('T')[0]),
+            date: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }).map(d => d.toISOString().split('T')[0]),
             sequenceNumber: fc.integer({ min: 1, max: 999 }),
-            rates: fc.constant([])
+            rates: fc.constant<ExchangeRate[]>([])
           })
         })
       ),
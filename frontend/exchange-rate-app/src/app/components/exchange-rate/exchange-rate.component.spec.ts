@@ -1,17 +1,67 @@
 import { ExchangeRateComponent } from './exchange-rate.component';
 import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { FavoritesService } from '../../services/favorites.service';
+import { HealthService } from '../../services/health.service';
+import { TranslationService } from '../../services/translation.service';
 import { signal } from '@angular/core';
+import { convertToParamMap, ParamMap } from '@angular/router';
+import { BehaviorSubject, of, Subject, throwError } from 'rxjs';
+import { ExchangeRateError } from '../../models/exchange-rate-error';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { DEFAULT_APP_CONFIG } from '../../utils/app-config';
+import { AppConfig } from '../../models/app-config.interface';
 
 // Simple unit test without Angular TestBed
 describe('ExchangeRateComponent', () => {
   let component: ExchangeRateComponent;
   let mockService: any;
+  let mockRoute: any;
+  let mockRouter: any;
+  let paramMap: BehaviorSubject<ParamMap>;
+  let queryParamMap: BehaviorSubject<ParamMap>;
+
+  function newComponent(dependencies: {
+    favorites?: FavoritesService;
+    health?: Partial<HealthService>;
+    config?: AppConfig;
+    translation?: TranslationService;
+  } = {}): ExchangeRateComponent {
+    return new ExchangeRateComponent(
+      mockService,
+      mockRoute,
+      mockRouter,
+      dependencies.favorites ?? new FavoritesService(),
+      (dependencies.health ?? { message: signal('') }) as HealthService,
+      dependencies.config ?? DEFAULT_APP_CONFIG,
+      dependencies.translation ?? new TranslationService()
+    );
+  }
 
   beforeEach(() => {
     mockService = {
-      getExchangeRates: vi.fn()
+      getExchangeRates: vi.fn().mockReturnValue(of({ date: '2025-12-05', sequenceNumber: 236, rates: [] })),
+      getExchangeRatesForDate: vi.fn().mockReturnValue(of({ date: '2025-12-01', sequenceNumber: 232, rates: [] })),
+      getPreviousFixing: vi.fn().mockReturnValue(of(null)),
+      getFixingBefore: vi.fn().mockReturnValue(of(null)),
+      getFreshness: vi.fn().mockReturnValue('current'),
+      getValidationIssues: vi.fn().mockReturnValue([]),
+      getNextPublication: vi.fn().mockReturnValue(new Date(Date.UTC(2025, 11, 8, 13, 30))),
+      watchExchangeRates: vi.fn().mockImplementation((date?: string) => of({
+        data: { date: date ?? '2025-12-05', sequenceNumber: 236, rates: [] },
+        fetchedAt: Date.now(),
+        source: 'network',
+        stale: false
+      }))
     };
-    component = new ExchangeRateComponent(mockService);
+    paramMap = new BehaviorSubject(convertToParamMap({}));
+    queryParamMap = new BehaviorSubject(convertToParamMap({}));
+    mockRoute = { paramMap, queryParamMap };
+    mockRouter = { navigate: vi.fn().mockResolvedValue(true) };
+    component = newComponent();
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
   });
 
   it('should create component', () => {
@@ -29,4 +79,371 @@ describe('ExchangeRateComponent', () => {
   it('should have retry method', () => {
     expect(typeof component.retry).toBe('function');
   });
-});
\ No newline at end of file
+
+  it('should report the malformed rates left out of the fixing', () => {
+    mockService.getValidationIssues.mockReturnValue([
+      { path: 'rates[1].amount', message: 'expected a positive integer, got 0 (number)' },
+      { path: 'rates[1].code', message: 'expected a three-letter currency code, got "usd" (string)' }
+    ]);
+    paramMap.next(convertToParamMap({ date: '2025-12-01' }));
+    component.ngOnInit();
+
+    expect(mockService.getValidationIssues).toHaveBeenCalledWith('2025-12-01');
+    expect(component.droppedRates()).toBe(1);
+    expect(component.validationDetails()[0]).toBe('rates[1].amount: expected a positive integer, got 0 (number)');
+  });
+
+  describe('URL state', () => {
+    it('should load the date, search term and sort from the URL', () => {
+      paramMap.next(convertToParamMap({ date: '2025-12-01' }));
+      queryParamMap.next(convertToParamMap({ q: 'eur', sort: 'rate:desc' }));
+      component.ngOnInit();
+
+      expect(mockService.watchExchangeRates).toHaveBeenCalledWith('2025-12-01');
+      expect(component.selectedDate()).toBe('2025-12-01');
+      expect(component.searchTerm()).toBe('eur');
+      expect(component.sortField()).toBe('rate');
+      expect(component.sortDirection()).toBe('desc');
+    });
+
+    it('should load the latest rates when no date is given', () => {
+      component.ngOnInit();
+
+      expect(mockService.watchExchangeRates).toHaveBeenCalledWith(undefined);
+      expect(component.selectedDate()).toBe('');
+    });
+
+    it('should fall back to the default sort for unknown sort parameters', () => {
+      queryParamMap.next(convertToParamMap({ sort: 'bogus:desc' }));
+      component.ngOnInit();
+
+      expect(component.sortField()).toBe('country');
+      expect(component.sortDirection()).toBe('asc');
+    });
+
+    it('should redirect invalid dates to the latest rates', () => {
+      paramMap.next(convertToParamMap({ date: 'not-a-date' }));
+      component.ngOnInit();
+
+      expect(mockService.watchExchangeRates).not.toHaveBeenCalled();
+      expect(mockRouter.navigate).toHaveBeenCalledWith(['/rates'], expect.objectContaining({ replaceUrl: true }));
+    });
+
+    it('should write search and sort changes to the query string', () => {
+      component.ngOnInit();
+      component.onSearchChange('usd');
+      component.sortBy('rate');
+      component.sortBy('rate');
+
+      expect(mockRouter.navigate).toHaveBeenLastCalledWith([], expect.objectContaining({
+        queryParams: { q: 'usd', sort: 'rate:desc', filter: null, display: null, base: null },
+        queryParamsHandling: 'merge'
+      }));
+    });
+
+    it('should navigate to the dated route when a date is picked', () => {
+      component.ngOnInit();
+      component.onDateChange('2025-12-01');
+
+      expect(mockRouter.navigate).toHaveBeenCalledWith(['/rates', '2025-12-01'], { queryParamsHandling: 'preserve' });
+    });
+  });
+
+  describe('day-over-day change', () => {
+    beforeEach(() => {
+      component.allRates.set([
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.5 },
+        { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 15 },
+        { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20 },
+        { country: 'Iceland', currency: 'krona', amount: 100, code: 'ISK', rate: 17 }
+      ]);
+      component.previousRates.set([
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24 },
+        { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 16 },
+        { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20 }
+      ]);
+    });
+
+    it('should compute absolute and percentage change against the previous fixing', () => {
+      expect(component.getChange('EUR')?.absolute).toBeCloseTo(0.5, 10);
+      expect(component.getChange('EUR')?.percent).toBeCloseTo(2.0833, 3);
+      expect(component.getChange('JPY')?.absolute).toBeCloseTo(-1, 10);
+      expect(component.getChange('ISK')).toBeUndefined();
+    });
+
+    it('should sort by change and keep currencies without a previous fixing last', () => {
+      component.sortBy('changePercent');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['JPY', 'USD', 'EUR', 'ISK']);
+
+      component.sortBy('changePercent');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['EUR', 'USD', 'JPY', 'ISK']);
+    });
+  });
+
+  describe('favorites', () => {
+    let favorites: FavoritesService;
+
+    beforeEach(() => {
+      localStorage.clear();
+      favorites = new FavoritesService();
+      component = newComponent({ favorites });
+      component.allRates.set([
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.5 },
+        { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 15 },
+        { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20 }
+      ]);
+    });
+
+    it('should pin favorites above the rest regardless of the sort field', () => {
+      component.toggleFavorite('USD');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['USD', 'EUR', 'JPY']);
+
+      component.sortBy('rate');
+      component.sortBy('rate');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['USD', 'EUR', 'JPY']);
+      expect(favorites.isFavorite('USD')).toBe(true);
+    });
+
+    it('should sort by several columns and combine range filters with the search', () => {
+      component.sortBy('amount');
+      component.sortBy('rate', true);
+      component.sortBy('rate', true);
+      expect(component.sortPriority('rate')).toBe(2);
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['EUR', 'USD', 'JPY']);
+
+      component.onRangeChange('rate', 'min', '20');
+      component.onRangeChange('rate', 'max', '24,5');
+      component.onSearchChange('u');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['EUR', 'USD']);
+      expect(mockRouter.navigate).toHaveBeenLastCalledWith([], expect.objectContaining({
+        queryParams: { q: 'u', sort: 'amount:asc,rate:desc', filter: 'rate:20..24.5', display: null, base: null }
+      }));
+    });
+
+    it('should sort and label the rates in the selected display mode', () => {
+      component.setDisplayMode('perUnit');
+      component.sortBy('rate');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['JPY', 'USD', 'EUR']);
+      expect(component.exchangeRates()[0]).toEqual(expect.objectContaining({ amount: 1, rate: 0.15 }));
+
+      component.setDisplayMode('inverse');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['EUR', 'USD', 'JPY']);
+      expect(component.columns().find(column => column.field === 'rate')?.label).toBe('column.inverseRate');
+      expect(mockRouter.navigate).toHaveBeenLastCalledWith([], expect.objectContaining({
+        queryParams: expect.objectContaining({ display: 'inverse' })
+      }));
+    });
+
+    it('should re-base the table on another currency with CZK as a row', () => {
+      component.setBaseCurrency('EUR');
+      component.sortBy('code');
+
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['CZK', 'JPY', 'USD']);
+      expect(component.exchangeRates()[2].rate).toBeCloseTo(20 / 24.5, 10);
+      expect(component.labelParams()).toEqual({ base: 'EUR' });
+
+      // A date without the base currency falls back to CZK
+      component.allRates.set([{ country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20 }]);
+      expect(component.effectiveBase()).toBe('CZK');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['USD']);
+    });
+
+    it('should name the CZK row in the current language', () => {
+      const translation = new TranslationService();
+      component = newComponent({ translation });
+      component.allRates.set([{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.5 }]);
+      component.setBaseCurrency('EUR');
+
+      try {
+        expect(component.exchangeRates()[0]).toEqual(expect.objectContaining({ code: 'CZK', country: 'Czech Republic' }));
+        translation.setLanguage('cs');
+        expect(component.exchangeRates()[0]).toEqual(expect.objectContaining({ code: 'CZK', country: 'Česká republika' }));
+      } finally {
+        translation.setLanguage('en');
+      }
+    });
+
+    it('should combine the favorites-only filter with the search', () => {
+      component.toggleFavorite('EUR');
+      component.toggleFavorite('JPY');
+      component.toggleFavoritesOnly();
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['EUR', 'JPY']);
+
+      component.onSearchChange('yen');
+      expect(component.exchangeRates().map(rate => rate.code)).toEqual(['JPY']);
+    });
+  });
+
+  describe('backend health', () => {
+    it('should warn about a degraded backend before any request fails', () => {
+      const mockHealth: any = { message: signal('The exchange rate server reports degraded service.') };
+      component = newComponent({ health: mockHealth });
+
+      expect(component.healthNotice()).toContain('degraded');
+    });
+
+    it('should stay quiet without a health service', () => {
+      expect(component.healthNotice()).toBe('');
+    });
+  });
+
+  describe('freshness', () => {
+    it('should report the freshness of the latest fixing', () => {
+      mockService.getFreshness.mockReturnValue('awaiting');
+      component.ngOnInit();
+
+      expect(component.freshness()).toBe('awaiting');
+      expect(component.freshnessLabel()).toBe('Awaiting today\'s fixing');
+      expect(mockService.getFreshness).toHaveBeenCalledWith('2025-12-05', expect.any(Date));
+    });
+
+    it('should not report freshness for a historical date', () => {
+      paramMap.next(convertToParamMap({ date: '2025-12-01' }));
+      component.ngOnInit();
+
+      expect(component.freshness()).toBeNull();
+      expect(mockService.getFreshness).not.toHaveBeenCalled();
+    });
+
+    it('should allow picking the new day once the clock passes midnight', () => {
+      component.now.set(new Date(2025, 11, 5, 23, 59));
+      expect(component.maxDate()).toBe('2025-12-05');
+
+      component.now.set(new Date(2025, 11, 6, 0, 0));
+      expect(component.maxDate()).toBe('2025-12-06');
+    });
+  });
+
+  describe('error handling', () => {
+    const notFound = new ExchangeRateError('not-found', 'Server returned code 404: Not Found', { status: 404 });
+
+    it('should show the nearest previous fixing for a date without one', () => {
+      mockService.watchExchangeRates.mockReturnValue(throwError(() => notFound));
+      mockService.getFixingBefore.mockReturnValue(of({ date: '2025-12-05T00:00:00', sequenceNumber: 236, rates: [] }));
+      paramMap.next(convertToParamMap({ date: '2025-12-06' }));
+      component.ngOnInit();
+
+      expect(mockService.getFixingBefore).toHaveBeenCalledWith('2025-12-06');
+      expect(component.error()).toBe('');
+      expect(component.sequenceNumber()).toBe(236);
+      expect(component.fallbackNotice()).toBe(
+        'Saturday 6 Dec 2025 → using fixing of Friday 5 Dec 2025 #236, the last one published by then.'
+      );
+    });
+
+    it('should explain an earlier fixing returned for a date without one', () => {
+      mockService.watchExchangeRates.mockReturnValue(of({
+        data: { date: '2025-12-05T00:00:00', sequenceNumber: 236, rates: [] },
+        fetchedAt: Date.now(),
+        source: 'network',
+        stale: false
+      }));
+      paramMap.next(convertToParamMap({ date: '2025-12-07' }));
+      component.ngOnInit();
+
+      expect(component.fallbackNotice()).toContain('Sunday 7 Dec 2025 → using fixing of Friday 5 Dec 2025 #236');
+    });
+
+    it('should show a tailored message with the request reference', () => {
+      mockService.watchExchangeRates.mockReturnValue(throwError(() => new ExchangeRateError(
+        'service-unavailable',
+        'Exchange rate service is temporarily unavailable. Please try again later.',
+        { status: 503, correlationId: 'abc-123' }
+      )));
+      component.ngOnInit();
+
+      expect(component.error()).toContain('Czech National Bank');
+      expect(component.errorReference()).toBe('abc-123');
+      expect(component.canRetry()).toBe(true);
+    });
+
+    it('should not offer a retry when no earlier fixing exists either', () => {
+      mockService.watchExchangeRates.mockReturnValue(throwError(() => notFound));
+      paramMap.next(convertToParamMap({ date: '2025-12-06' }));
+      component.ngOnInit();
+
+      expect(component.error()).toContain('No exchange rates');
+      expect(component.canRetry()).toBe(false);
+    });
+  });
+
+  describe('offline fallback', () => {
+    it('should show the last known rates with a stale badge instead of an error', () => {
+      const fetchedAt = Date.UTC(2025, 11, 5, 14, 35);
+      mockService.watchExchangeRates.mockReturnValue(of({
+        data: { date: '2025-12-05', sequenceNumber: 236, rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 }] },
+        fetchedAt,
+        source: 'storage',
+        stale: true
+      }));
+      component.ngOnInit();
+
+      expect(component.error()).toBe('');
+      expect(component.allRates().length).toBe(1);
+      expect(component.staleSince()).toBe(fetchedAt);
+    });
+  });
+
+  describe('auto-refresh', () => {
+    const newFixing: ExchangeRateResponse = { date: '2025-12-08', sequenceNumber: 237, rates: [] };
+    let polled: Subject<ExchangeRateResponse>;
+
+    function createComponent(autoApply: boolean): void {
+      polled = new Subject();
+      mockService.pollLatestRates = vi.fn().mockReturnValue(polled);
+      const config = { ...DEFAULT_APP_CONFIG, autoRefresh: { enabled: true, intervalMinutes: 1, autoApply } };
+      component = newComponent({ config });
+    }
+
+    it('should offer a new fixing without resetting the search and sort', () => {
+      createComponent(false);
+      queryParamMap.next(convertToParamMap({ q: 'eur', sort: 'rate:desc' }));
+      component.ngOnInit();
+
+      expect(mockService.pollLatestRates).toHaveBeenCalledWith(60 * 1000);
+      polled.next({ date: '2025-12-05', sequenceNumber: 236, rates: [] });
+      expect(component.newFixing()).toBeNull();
+
+      polled.next(newFixing);
+      expect(component.newFixing()).toBe(newFixing);
+      expect(component.sequenceNumber()).toBe(236);
+
+      component.applyNewFixing();
+      expect(component.sequenceNumber()).toBe(237);
+      expect(component.newFixing()).toBeNull();
+      expect(component.searchTerm()).toBe('eur');
+      expect(component.sortField()).toBe('rate');
+      expect(component.sortDirection()).toBe('desc');
+    });
+
+    it('should not offer a dismissed fixing again', () => {
+      createComponent(false);
+      component.ngOnInit();
+
+      polled.next(newFixing);
+      component.dismissNewFixing();
+      polled.next(newFixing);
+
+      expect(component.newFixing()).toBeNull();
+      expect(component.sequenceNumber()).toBe(236);
+    });
+
+    it('should show a new fixing right away when configured to', () => {
+      createComponent(true);
+      component.ngOnInit();
+
+      polled.next(newFixing);
+
+      expect(component.newFixing()).toBeNull();
+      expect(component.lastUpdated()).toBe('2025-12-08');
+    });
+
+    it('should not poll while a historical fixing is shown', () => {
+      createComponent(false);
+      paramMap.next(convertToParamMap({ date: '2025-12-01' }));
+      component.ngOnInit();
+
+      expect(mockService.pollLatestRates).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,33 +1,235 @@
-import { Component, OnInit, signal, computed } from '@angular/core';
+import { Component, Inject, OnDestroy, OnInit, signal, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, ParamMap, Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { CurrencyConverterComponent } from '../currency-converter/currency-converter.component';
+import { RateExportComponent } from '../rate-export/rate-export.component';
 import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { FavoritesService } from '../../services/favorites.service';
+import { HealthService } from '../../services/health.service';
+import { TranslationService } from '../../services/translation.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+import { MessageKey } from '../../i18n/i18n';
+import { AppConfig, AutoRefreshPolicy, FeatureToggles } from '../../models/app-config.interface';
 import { ExchangeRate, ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { RatesSnapshot } from '../../models/rates-snapshot.interface';
+import { ExchangeRateError } from '../../models/exchange-rate-error';
+import { isIsoDate, normalizeIsoDate, toIsoDate } from '../../utils/date-utils';
+import { computeRateChanges, RateChange } from '../../utils/rate-change';
+import { BASE_CURRENCY_CODE, BaseCurrencyNames, czkPerUnit, rebaseRates } from '../../utils/currency-conversion';
+import { RATE_DISPLAY_MODES, RateDisplayMode, toDisplayRates } from '../../utils/rate-display';
+import {
+  compareRates,
+  formatRangeFilters,
+  formatSortKeys,
+  matchesRanges,
+  NumericRange,
+  parseRangeFilters,
+  parseSortKeys,
+  RANGE_FIELDS,
+  RangeField,
+  RangeFilters,
+  SortDirection,
+  SortField,
+  SortKey,
+  toggleSortKey
+} from '../../utils/rate-table';
+import { FixingFreshness } from '../../utils/cnb-calendar';
+import { droppedRowCount, formatIssue, ValidationIssue } from '../../utils/response-validation';
+import { APP_CONFIG } from '../../utils/app-config';
 
-type SortField = 'country' | 'currency' | 'code' | 'rate';
-type SortDirection = 'asc' | 'desc';
+const DEFAULT_SORT_KEYS: readonly SortKey[] = [{ field: 'country', direction: 'asc' }];
+const CLOCK_INTERVAL = 60 * 1000;
+
+interface TableColumn {
+  field: SortField;
+  label: MessageKey;
+  cssClass: string;
+}
+
+// Sortable columns in table order
+const TABLE_COLUMNS: readonly TableColumn[] = [
+  { field: 'country', label: 'column.country', cssClass: '' },
+  { field: 'currency', label: 'column.currency', cssClass: '' },
+  { field: 'amount', label: 'column.amount', cssClass: 'amount-column' },
+  { field: 'code', label: 'column.code', cssClass: 'code-column' },
+  { field: 'rate', label: 'column.rate', cssClass: 'rate-column' },
+  { field: 'unitRate', label: 'column.unitRate', cssClass: 'rate-column' },
+  { field: 'change', label: 'column.change', cssClass: 'change-column' },
+  { field: 'changePercent', label: 'column.changePercent', cssClass: 'change-column' }
+];
+
+const RATE_COLUMN_LABELS: Record<RateDisplayMode, MessageKey> = {
+  published: 'column.rate',
+  perUnit: 'column.unitRate',
+  inverse: 'column.inverseRate'
+};
+
+const DISPLAY_MODE_LABELS: Record<RateDisplayMode, MessageKey> = {
+  published: 'display.published',
+  perUnit: 'display.perUnit',
+  inverse: 'display.inverse'
+};
+
+// Digits info for the rate column; per-unit and inverse rates can be small fractions
+const RATE_DIGITS: Record<RateDisplayMode, string> = {
+  published: '1.3-3',
+  perUnit: '1.3-6',
+  inverse: '1.4-6'
+};
+
+const RANGE_LABELS: Record<RangeField, MessageKey> = {
+  rate: 'column.rate',
+  unitRate: 'column.unitRate',
+  amount: 'column.amount'
+};
+
+const FRESHNESS_LABELS: Record<FixingFreshness, MessageKey> = {
+  current: 'freshness.current',
+  awaiting: 'freshness.awaiting',
+  stale: 'freshness.stale'
+};
 
 @Component({
   selector: 'app-exchange-rate',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    CurrencyConverterComponent,
+    RateExportComponent,
+    TranslatePipe,
+    LocaleNumberPipe,
+    LocaleDatePipe
+  ],
   templateUrl: './exchange-rate.component.html',
   styleUrl: './exchange-rate.component.css'
 })
-export class ExchangeRateComponent implements OnInit {
+export class ExchangeRateComponent implements OnInit, OnDestroy {
   allRates = signal<ExchangeRate[]>([]);
   searchTerm = signal<string>('');
-  sortField = signal<SortField>('country');
-  sortDirection = signal<SortDirection>('asc');
+  // In order of priority, the first key decides unless it ties
+  sortKeys = signal<SortKey[]>([...DEFAULT_SORT_KEYS]);
+  sortField = computed(() => this.sortKeys()[0].field);
+  sortDirection = computed(() => this.sortKeys()[0].direction);
+  rangeFilters = signal<RangeFilters>({});
+  hasRangeFilters = computed(() => Object.keys(this.rangeFilters()).length > 0);
+  // Currency the table is quoted against, CZK as published or any quoted currency via cross rates
+  baseCurrency = signal<string>(BASE_CURRENCY_CODE);
+  // Falls back to CZK for a date the chosen base currency was not quoted on
+  effectiveBase = computed(() => {
+    const base = this.baseCurrency();
+    return this.allRates().some(rate => rate.code === base) ? base : BASE_CURRENCY_CODE;
+  });
+  isRebased = computed(() => this.effectiveBase() !== BASE_CURRENCY_CODE);
+  baseCurrencies = computed(() => [
+    BASE_CURRENCY_CODE,
+    ...this.allRates().map(rate => rate.code).sort((a, b) => a.localeCompare(b))
+  ]);
+  // Placeholders of the column labels
+  labelParams = computed(() => ({ base: this.effectiveBase() }));
+  displayMode = signal<RateDisplayMode>('published');
+  readonly displayModes = RATE_DISPLAY_MODES;
+  readonly displayModeLabels = DISPLAY_MODE_LABELS;
+  rateDigits = computed(() => RATE_DIGITS[this.displayMode()]);
+  // The per-unit column only adds information next to the published rates
+  columns = computed(() => {
+    const mode = this.displayMode();
+    return TABLE_COLUMNS
+      .filter(column => column.field !== 'unitRate' || mode === 'published')
+      .map(column => column.field === 'rate' ? { ...column, label: RATE_COLUMN_LABELS[mode] } : column);
+  });
+  readonly rangeFields = RANGE_FIELDS;
+  readonly rangeLabels = RANGE_LABELS;
+  favoritesOnly = signal<boolean>(false);
+
+  // Empty string means the latest published fixing
+  selectedDate = signal<string>('');
+  // Follows the clock so a page left open past midnight can pick the new day
+  maxDate = computed(() => toIsoDate(this.now()));
   
   lastUpdated = signal<string>('');
   sequenceNumber = signal<number>(0);
   isLoading = signal<boolean>(false);
-  error = signal<string>('');
+  // Kept as the error itself so the message follows language switches
+  private failure = signal<Error | null>(null);
+  error = computed(() => {
+    const failure = this.failure();
+    return failure ? this.translation.describeError(failure) : '';
+  });
+  // Correlation id of the failed request, for the user to quote to support so it can be found in the backend logs
+  errorReference = signal<string>('');
+  canRetry = signal<boolean>(true);
+  // Set when the selected date has no fixing and the one applicable on it is shown instead
+  private fallback = signal<{ date: string; previousDate: string; sequenceNumber: number } | null>(null);
+  fallbackNotice = computed(() => {
+    const fallback = this.fallback();
+    return fallback
+      ? this.translation.translate('rates.fallbackNotice', {
+        date: this.translation.formatDate(fallback.date, 'weekday'),
+        previousDate: this.translation.formatDate(fallback.previousDate, 'weekday'),
+        number: fallback.sequenceNumber
+      })
+      : '';
+  });
+  // Set when the API could not be reached and the last known rates are shown instead
+  staleSince = signal<number | null>(null);
+  // Malformed rates the service left out of the shown fixing
+  private validationIssues = signal<ValidationIssue[]>([]);
+  droppedRates = computed(() => droppedRowCount(this.validationIssues()));
+  validationDetails = computed(() => this.validationIssues().map(formatIssue));
+  isRevalidating = signal<boolean>(false);
+  // A newer fixing found by auto-refresh, waiting for the user to show it
+  newFixing = signal<ExchangeRateResponse | null>(null);
+  // Ticks every minute so the freshness status and the latest selectable date follow the clock
+  now = signal<Date>(new Date());
+
+  // Only meaningful for the latest rates, a historical fixing never gets newer
+  freshness = computed<FixingFreshness | null>(() => {
+    const fixingDate = this.lastUpdated();
+    return this.selectedDate() || !fixingDate ? null : this.exchangeRateService.getFreshness(fixingDate, this.now());
+  });
+  freshnessLabel = computed(() => {
+    const freshness = this.freshness();
+    return freshness ? this.translation.translate(FRESHNESS_LABELS[freshness]) : '';
+  });
+  nextPublication = computed(() => this.exchangeRateService.getNextPublication(this.now()));
+
+  // Previous published fixing, used for the day-over-day change columns
+  previousRates = signal<ExchangeRate[]>([]);
+  previousFixingDate = signal<string>('');
+
+  // Reported by the health checks before any rate request fails
+  healthNotice = computed(() => this.healthService.message());
+
+  // Names of the CZK row added when the table is re-based on another currency
+  private baseCurrencyNames = computed<BaseCurrencyNames>(() => ({
+    country: this.translation.translate('rates.baseCountry'),
+    currency: this.translation.translate('rates.baseCurrency')
+  }));
+
+  // Rates re-based and converted for the display mode; the table, its sort, filters, changes and the export all work on these
+  displayRates = computed(() => toDisplayRates(
+    rebaseRates(this.allRates(), this.effectiveBase(), this.baseCurrencyNames()),
+    this.displayMode()
+  ));
+
+  rateChanges = computed(() => computeRateChanges(
+    this.displayRates(),
+    toDisplayRates(rebaseRates(this.previousRates(), this.effectiveBase(), this.baseCurrencyNames()), this.displayMode())
+  ));
 
   // Computed signal for filtered and sorted exchange rates
   exchangeRates = computed(() => {
-    let rates = this.allRates();
+    let rates = this.displayRates();
+    const favorites = new Set(this.features.favorites ? this.favoritesService.favorites() : []);
+
+    if (this.favoritesOnly()) {
+      rates = rates.filter(rate => favorites.has(rate.code));
+    }
     
     // Apply search filter
     const search = this.searchTerm().toLowerCase().trim();
@@ -39,69 +241,354 @@ export class ExchangeRateComponent implements OnInit {
       );
     }
 
-    // Apply sorting
-    const field = this.sortField();
-    const direction = this.sortDirection();
-    
+    const ranges = this.rangeFilters();
+    rates = rates.filter(rate => matchesRanges(rate, ranges));
+
+    const keys = this.sortKeys();
+    const changes = this.rateChanges();
+
     return [...rates].sort((a, b) => {
-      let comparison = 0;
-      
-      if (field === 'rate') {
-        comparison = a.rate - b.rate;
-      } else {
-        const aValue = String(a[field]).toLowerCase();
-        const bValue = String(b[field]).toLowerCase();
-        comparison = aValue.localeCompare(bValue);
-      }
-      
-      return direction === 'asc' ? comparison : -comparison;
+      // Favorites stay pinned above the rest whatever the sort keys
+      const pinned = Number(favorites.has(b.code)) - Number(favorites.has(a.code));
+      return pinned !== 0 ? pinned : compareRates(a, b, keys, changes);
     });
   });
 
-  constructor(private exchangeRateService: ExchangeRateService) {}
+  private routeSubscriptions = new Subscription();
+  private loadSubscription: Subscription | null = null;
+  private previousFixingSubscription: Subscription | null = null;
+  private pollSubscription: Subscription | null = null;
+  private clockTimer: ReturnType<typeof setInterval> | null = null;
+  // Date and sequence number of a new fixing the user chose not to show
+  private dismissedFixing = '';
+
+  readonly features: FeatureToggles;
+  private readonly autoRefresh: AutoRefreshPolicy;
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private favoritesService: FavoritesService,
+    private healthService: HealthService,
+    @Inject(APP_CONFIG) appConfig: AppConfig,
+    private translation: TranslationService
+  ) {
+    this.features = appConfig.features;
+    this.autoRefresh = appConfig.autoRefresh;
+  }
 
   ngOnInit(): void {
-    this.loadExchangeRates();
+    // The date lives in the path (/rates/:date), search and sort in the query string
+    this.routeSubscriptions.add(
+      this.route.paramMap.subscribe(params => this.applyDateParam(params))
+    );
+    this.routeSubscriptions.add(
+      this.route.queryParamMap.subscribe(params => this.applyQueryParams(params))
+    );
+    this.clockTimer = setInterval(() => this.now.set(new Date()), CLOCK_INTERVAL);
+  }
+
+  ngOnDestroy(): void {
+    this.routeSubscriptions.unsubscribe();
+    this.loadSubscription?.unsubscribe();
+    this.previousFixingSubscription?.unsubscribe();
+    this.pollSubscription?.unsubscribe();
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer);
+    }
   }
 
   loadExchangeRates(): void {
     this.isLoading.set(true);
-    this.error.set('');
-
-    this.exchangeRateService.getExchangeRates().subscribe({
-      next: (response: ExchangeRateResponse) => {
-        this.allRates.set(response.rates);
-        this.lastUpdated.set(response.date);
-        this.sequenceNumber.set(response.sequenceNumber);
-        this.isLoading.set(false);
+    this.clearError();
+    this.fallback.set(null);
+    this.staleSince.set(null);
+
+    // Drop a response still in flight for a previously selected date
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = this.exchangeRateService.watchExchangeRates(this.selectedDate() || undefined).subscribe({
+      next: (snapshot: RatesSnapshot) => {
+        this.applyResponse(snapshot.data);
+        // The API may answer a date without a fixing with the last one published before it
+        const date = this.selectedDate();
+        const fixingDate = normalizeIsoDate(snapshot.data.date);
+        this.fallback.set(date && fixingDate < date
+          ? { date, previousDate: fixingDate, sequenceNumber: snapshot.data.sequenceNumber }
+          : null);
+        this.staleSince.set(snapshot.stale ? snapshot.fetchedAt : null);
+        this.isRevalidating.set(snapshot.source === 'storage' && !snapshot.stale);
       },
       error: (error: Error) => {
-        this.error.set(error.message);
-        this.isLoading.set(false);
+        this.isRevalidating.set(false);
+        const date = this.selectedDate();
+        if (date && error instanceof ExchangeRateError && error.kind === 'not-found') {
+          this.loadNearestPreviousFixing(date, error);
+          return;
+        }
+        this.showError(error);
+      },
+      complete: () => {
+        this.isRevalidating.set(false);
       }
     });
+    this.updatePolling();
+  }
+
+  /**
+   * Show the closest earlier fixing for a date the CNB published nothing for
+   */
+  loadNearestPreviousFixing(date: string, notFound: ExchangeRateError): void {
+    this.loadSubscription = this.exchangeRateService.getFixingBefore(date).subscribe({
+      next: (previous: ExchangeRateResponse | null) => {
+        if (!previous) {
+          this.showError(notFound);
+          return;
+        }
+        this.applyResponse(previous);
+        this.fallback.set({ date, previousDate: normalizeIsoDate(previous.date), sequenceNumber: previous.sequenceNumber });
+      },
+      error: (error: Error) => this.showError(error)
+    });
+  }
+
+  /**
+   * Load the previous published fixing in the background; the change columns stay empty until it arrives
+   */
+  loadPreviousFixing(response: ExchangeRateResponse): void {
+    this.previousFixingSubscription?.unsubscribe();
+    this.previousRates.set([]);
+    this.previousFixingDate.set('');
+
+    this.previousFixingSubscription = this.exchangeRateService.getPreviousFixing(response).subscribe({
+      next: (previous: ExchangeRateResponse | null) => {
+        this.previousRates.set(previous?.rates ?? []);
+        this.previousFixingDate.set(previous ? normalizeIsoDate(previous.date) : '');
+      },
+      error: () => {
+        // The change columns are optional, the table stays usable without them
+        this.previousRates.set([]);
+      }
+    });
+  }
+
+  getChange(code: string): RateChange | undefined {
+    return this.rateChanges().get(code);
+  }
+
+  isFavorite(code: string): boolean {
+    return this.features.favorites && this.favoritesService.isFavorite(code);
+  }
+
+  toggleFavorite(code: string): void {
+    this.favoritesService.toggle(code);
+  }
+
+  toggleFavoritesOnly(): void {
+    this.favoritesOnly.set(!this.favoritesOnly());
+  }
+
+  /**
+   * Show the new fixing offered in the notice; search, sort and filters stay as they are
+   */
+  applyNewFixing(): void {
+    const fixing = this.newFixing();
+    if (fixing) {
+      this.applyResponse(fixing);
+      this.staleSince.set(null);
+    }
+  }
+
+  dismissNewFixing(): void {
+    const fixing = this.newFixing();
+    if (fixing) {
+      this.dismissedFixing = fixingKey(fixing);
+      this.newFixing.set(null);
+    }
   }
 
   retry(): void {
     this.loadExchangeRates();
   }
 
+  onDateChange(value: string): void {
+    if (value === this.selectedDate()) {
+      return;
+    }
+    // Loading is triggered by the route parameter change
+    this.router.navigate(value ? ['/rates', value] : ['/rates'], {
+      queryParamsHandling: 'preserve'
+    });
+  }
+
+  showLatest(): void {
+    this.onDateChange('');
+  }
+
   onSearchChange(value: string): void {
     this.searchTerm.set(value);
+    this.updateQueryParams();
   }
 
-  sortBy(field: SortField): void {
-    if (this.sortField() === field) {
-      // Toggle direction if clicking the same field
-      this.sortDirection.set(this.sortDirection() === 'asc' ? 'desc' : 'asc');
+  /**
+   * Sort by a column, or with additive (Shift+click) by one more column after the current ones
+   */
+  sortBy(field: SortField, additive = false): void {
+    this.sortKeys.set(toggleSortKey(this.sortKeys(), field, additive));
+    this.updateQueryParams();
+  }
+
+  /**
+   * Position of the column among the sort keys, starting at 1; 0 when the table is not sorted by it
+   */
+  sortPriority(field: SortField): number {
+    return this.sortKeys().findIndex(key => key.field === field) + 1;
+  }
+
+  sortDirectionOf(field: SortField): SortDirection | null {
+    return this.sortKeys().find(key => key.field === field)?.direction ?? null;
+  }
+
+  /**
+   * Set one bound of a numeric filter; an empty or invalid value leaves that side open
+   */
+  onRangeChange(field: RangeField, bound: keyof NumericRange, value: string): void {
+    const parsed = value.trim() === '' ? null : Number(value.replace(',', '.'));
+    const current = this.rangeFilters()[field] ?? { min: null, max: null };
+    const range = { ...current, [bound]: Number.isFinite(parsed) ? parsed : null };
+    const filters = { ...this.rangeFilters() };
+    if (range.min === null && range.max === null) {
+      delete filters[field];
     } else {
-      // Set new field with ascending direction
-      this.sortField.set(field);
-      this.sortDirection.set('asc');
+      filters[field] = range;
     }
+    this.rangeFilters.set(filters);
+    this.updateQueryParams();
+  }
+
+  setBaseCurrency(code: string): void {
+    this.baseCurrency.set(code);
+    this.updateQueryParams();
+  }
+
+  setDisplayMode(mode: RateDisplayMode): void {
+    this.displayMode.set(mode);
+    this.updateQueryParams();
+  }
+
+  clearRangeFilters(): void {
+    this.rangeFilters.set({});
+    this.updateQueryParams();
+  }
+
+  unitRate(rate: ExchangeRate): number {
+    return czkPerUnit(rate);
   }
 
   clearSearch(): void {
     this.searchTerm.set('');
+    this.updateQueryParams();
+  }
+
+  private applyResponse(response: ExchangeRateResponse): void {
+    this.allRates.set(response.rates);
+    this.lastUpdated.set(response.date);
+    this.sequenceNumber.set(response.sequenceNumber);
+    this.validationIssues.set(this.exchangeRateService.getValidationIssues(this.selectedDate() || undefined));
+    this.isLoading.set(false);
+    this.newFixing.set(null);
+    this.loadPreviousFixing(response);
   }
-}
\ No newline at end of file
+
+  /**
+   * Poll for a new fixing while the latest rates are shown, a historical fixing never changes
+   */
+  private updatePolling(): void {
+    this.pollSubscription?.unsubscribe();
+    this.pollSubscription = null;
+    if (!this.autoRefresh.enabled || this.selectedDate()) {
+      return;
+    }
+    this.pollSubscription = this.exchangeRateService
+      .pollLatestRates(this.autoRefresh.intervalMinutes * 60 * 1000)
+      .subscribe(response => this.onPolledRates(response));
+  }
+
+  private onPolledRates(response: ExchangeRateResponse): void {
+    // Nothing shown yet, the initial load or its error state takes care of it
+    if (this.isLoading() || !this.lastUpdated()) {
+      return;
+    }
+    const key = fixingKey(response);
+    if (key === fixingKey({ date: this.lastUpdated(), sequenceNumber: this.sequenceNumber() }) || key === this.dismissedFixing) {
+      return;
+    }
+    if (this.autoRefresh.autoApply) {
+      this.applyResponse(response);
+      this.staleSince.set(null);
+    } else {
+      this.newFixing.set(response);
+    }
+  }
+
+  private showError(error: Error): void {
+    this.failure.set(error);
+    this.errorReference.set(error instanceof ExchangeRateError ? error.correlationId ?? '' : '');
+    this.canRetry.set(!(error instanceof ExchangeRateError) || (error.kind !== 'not-found' && error.kind !== 'invalid-date'));
+    this.isLoading.set(false);
+  }
+
+  private clearError(): void {
+    this.failure.set(null);
+    this.errorReference.set('');
+    this.canRetry.set(true);
+  }
+
+  private applyDateParam(params: ParamMap): void {
+    const date = params.get('date') ?? '';
+    if (date && (!isIsoDate(date) || date > this.maxDate())) {
+      this.router.navigate(['/rates'], { queryParamsHandling: 'preserve', replaceUrl: true });
+      return;
+    }
+    if (date === this.selectedDate() && this.loadSubscription) {
+      return;
+    }
+    this.selectedDate.set(date);
+    this.loadExchangeRates();
+  }
+
+  private applyQueryParams(params: ParamMap): void {
+    this.searchTerm.set(params.get('q') ?? '');
+
+    const keys = parseSortKeys(params.get('sort') ?? '');
+    this.sortKeys.set(keys.length > 0 ? keys : [...DEFAULT_SORT_KEYS]);
+    this.rangeFilters.set(parseRangeFilters(params.get('filter') ?? ''));
+    this.baseCurrency.set(params.get('base') ?? BASE_CURRENCY_CODE);
+    const display = params.get('display') as RateDisplayMode;
+    this.displayMode.set(RATE_DISPLAY_MODES.includes(display) ? display : 'published');
+  }
+
+  /**
+   * Mirror search, sort, filter, display mode and base currency in the URL so the current view can be shared as a link
+   */
+  private updateQueryParams(): void {
+    const sort = formatSortKeys(this.sortKeys());
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        q: this.searchTerm() || null,
+        sort: sort === formatSortKeys(DEFAULT_SORT_KEYS) ? null : sort,
+        filter: formatRangeFilters(this.rangeFilters()) || null,
+        display: this.displayMode() === 'published' ? null : this.displayMode(),
+        base: this.baseCurrency() === BASE_CURRENCY_CODE ? null : this.baseCurrency()
+      },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+}
+
+function fixingKey(fixing: Pick<ExchangeRateResponse, 'date' | 'sequenceNumber'>): string {
+  return `${normalizeIsoDate(fixing.date)}#${fixing.sequenceNumber}`;
+}
@@ -0,0 +1,63 @@
+import { Component, OnDestroy, OnInit, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { HealthService } from '../../services/health.service';
+import { DetailedHealthResponse, HealthState } from '../../models/health.interface';
+import { MessageKey } from '../../i18n/i18n';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+
+const STATE_LABELS: Record<HealthState, MessageKey> = {
+  healthy: 'health.state.healthy',
+  degraded: 'health.state.degraded',
+  unhealthy: 'health.state.unhealthy',
+  unknown: 'health.state.unknown'
+};
+
+@Component({
+  selector: 'app-health-banner',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocaleDatePipe],
+  templateUrl: './health-banner.component.html',
+  styleUrl: './health-banner.component.css'
+})
+export class HealthBannerComponent implements OnInit, OnDestroy {
+  details = signal<DetailedHealthResponse | null>(null);
+  showDetails = signal<boolean>(false);
+
+  private checkSubscription: Subscription | null = null;
+  private detailsSubscription: Subscription | null = null;
+
+  constructor(public healthService: HealthService) {}
+
+  ngOnInit(): void {
+    this.healthService.start();
+  }
+
+  ngOnDestroy(): void {
+    this.healthService.stop();
+    this.checkSubscription?.unsubscribe();
+    this.detailsSubscription?.unsubscribe();
+  }
+
+  label(state: HealthState): MessageKey {
+    return STATE_LABELS[state];
+  }
+
+  checkNow(): void {
+    this.checkSubscription?.unsubscribe();
+    this.checkSubscription = this.healthService.check().subscribe();
+  }
+
+  toggleDetails(): void {
+    this.showDetails.set(!this.showDetails());
+    if (!this.showDetails()) {
+      return;
+    }
+    this.detailsSubscription?.unsubscribe();
+    this.detailsSubscription = this.healthService.getDetailedHealth().subscribe({
+      next: details => this.details.set(details),
+      error: () => this.details.set(null)
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { RateAlertsComponent } from './rate-alerts.component';
+import { AlertService } from '../../services/alert.service';
+import { TranslationService } from '../../services/translation.service';
+
+// Simple unit test without Angular TestBed
+describe('RateAlertsComponent', () => {
+  let alertService: AlertService;
+  let component: RateAlertsComponent;
+
+  beforeEach(() => {
+    localStorage.clear();
+    alertService = new AlertService({} as any, new TranslationService());
+    component = new RateAlertsComponent(alertService);
+  });
+
+  it('should add a rule with a decimal comma threshold and clear the form', () => {
+    component.onKindChange('above');
+    component.onCodeChange(' eur');
+    component.onValueChange('25,5');
+    expect(component.canAdd()).toBe(true);
+
+    component.addRule();
+
+    expect(alertService.rules()).toEqual([expect.objectContaining({ kind: 'above', code: 'EUR', value: 25.5 })]);
+    expect(component.code()).toBe('');
+    expect(component.value()).toBe('');
+  });
+
+  it('should read a threshold with grouped thousands', () => {
+    component.onCodeChange('HUF');
+    component.onValueChange('1 234,5');
+    component.addRule();
+
+    expect(alertService.rules()[0].value).toBe(1234.5);
+  });
+
+  it('should not add a rule without a valid currency code or threshold', () => {
+    component.onCodeChange('EU');
+    component.onValueChange('25');
+    expect(component.canAdd()).toBe(false);
+
+    component.onCodeChange('EUR');
+    component.onValueChange('0');
+    expect(component.canAdd()).toBe(false);
+
+    component.addRule();
+    expect(alertService.rules()).toEqual([]);
+  });
+
+  it('should add a new fixing rule without a currency', () => {
+    component.onKindChange('newFixing');
+    expect(component.needsCurrency()).toBe(false);
+
+    component.addRule();
+
+    expect(alertService.rules()).toEqual([expect.objectContaining({ kind: 'newFixing', code: '', value: 0 })]);
+  });
+});
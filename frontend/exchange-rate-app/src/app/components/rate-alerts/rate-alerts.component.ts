@@ -0,0 +1,72 @@
+import { Component, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AlertService } from '../../services/alert.service';
+import { ALERT_RULE_KINDS, AlertRuleKind } from '../../utils/alert-rules';
+import { parseDecimal } from '../../utils/number-parsing';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+import { MessageKey } from '../../i18n/i18n';
+
+const RULE_KIND_LABELS: Record<AlertRuleKind, MessageKey> = {
+  above: 'alerts.kind.above',
+  below: 'alerts.kind.below',
+  change: 'alerts.kind.change',
+  newFixing: 'alerts.kind.newFixing'
+};
+
+const CURRENCY_CODE_PATTERN = /^[A-Za-z]{3}$/;
+
+@Component({
+  selector: 'app-rate-alerts',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocaleNumberPipe, LocaleDatePipe],
+  templateUrl: './rate-alerts.component.html',
+  styleUrl: './rate-alerts.component.css'
+})
+export class RateAlertsComponent {
+  readonly ruleKinds = ALERT_RULE_KINDS;
+  readonly ruleKindLabels = RULE_KIND_LABELS;
+
+  kind = signal<AlertRuleKind>('above');
+  code = signal<string>('');
+  value = signal<string>('');
+
+  needsCurrency = computed(() => this.kind() !== 'newFixing');
+  canAdd = computed(() => !this.needsCurrency() ||
+    (CURRENCY_CODE_PATTERN.test(this.code().trim()) && this.parsedValue() !== null));
+
+  constructor(public alertService: AlertService) {}
+
+  onKindChange(value: string): void {
+    this.kind.set(value as AlertRuleKind);
+  }
+
+  onCodeChange(value: string): void {
+    this.code.set(value);
+  }
+
+  onValueChange(value: string): void {
+    this.value.set(value);
+  }
+
+  addRule(): void {
+    if (!this.canAdd()) {
+      return;
+    }
+    this.alertService.addRule(this.kind(), this.code(), this.parsedValue() ?? 0);
+    this.code.set('');
+    this.value.set('');
+  }
+
+  /**
+   * Threshold entered with a decimal point or comma; change rules need a positive percentage
+   */
+  private parsedValue(): number | null {
+    const value = parseDecimal(this.value());
+    if (value === null || value < 0 || (this.kind() !== 'change' && value === 0)) {
+      return null;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,42 @@
+import { of } from 'rxjs';
+import { RateChartComponent } from './rate-chart.component';
+import { TranslationService } from '../../services/translation.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+
+// Simple unit test without Angular TestBed
+describe('RateChartComponent', () => {
+  let mockService: { getExchangeRates: ReturnType<typeof vi.fn>; getExchangeRatesForRange: ReturnType<typeof vi.fn> };
+  let component: RateChartComponent;
+
+  const createResponse = (date: string, rates: Record<string, number>): ExchangeRateResponse => ({
+    date: `${date}T00:00:00`,
+    sequenceNumber: 1,
+    rates: Object.entries(rates).map(([code, rate]) => ({ country: code, currency: code, amount: 1, code, rate }))
+  });
+
+  beforeEach(() => {
+    mockService = {
+      getExchangeRates: vi.fn().mockReturnValue(of(createResponse('2025-12-05', { EUR: 24.3, USD: 20.7 }))),
+      getExchangeRatesForRange: vi.fn().mockReturnValue(of([
+        createResponse('2025-12-01', { EUR: 24.1, USD: 20.5 }),
+        createResponse('2025-12-02', { EUR: 24.2 }),
+        createResponse('2025-12-03', { EUR: 24.3, USD: 20.7 }),
+        createResponse('2025-12-04', { EUR: 24.4, USD: 20.8 })
+      ]))
+    };
+    component = new RateChartComponent(mockService as any, new TranslationService());
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
+  });
+
+  it('should leave a gap in the line where a fixing does not quote the currency', () => {
+    component.selectedCodes.set(['EUR', 'USD']);
+    component.ngOnInit();
+
+    const [eur, usd] = component.lines().map(line => line.path.split(' ').map(segment => segment[0]).join(''));
+    expect(eur).toBe('MLLL');
+    expect(usd).toBe('MML');
+  });
+});
@@ -0,0 +1,299 @@
+import { Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { addMonths, isIsoDate, normalizeIsoDate, toIsoDate, todayIsoDate } from '../../utils/date-utils';
+import { buildRateSeries, RateSeries, toPercentChange } from '../../utils/rate-series';
+import { TranslationService } from '../../services/translation.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+import { RateStatsComponent } from '../rate-stats/rate-stats.component';
+import { MessageKey } from '../../i18n/i18n';
+
+type ChartRange = '1M' | '3M' | '1Y' | 'custom';
+type ChartScale = 'rate' | 'percent';
+
+interface ChartLine {
+  code: string;
+  color: string;
+  path: string;
+}
+
+interface TooltipValue {
+  code: string;
+  color: string;
+  amount: number;
+  rate: number;
+  y: number;
+}
+
+interface Tooltip {
+  date: string;
+  sequenceNumber: number;
+  x: number;
+  values: TooltipValue[];
+}
+
+const RANGE_MONTHS: Record<Exclude<ChartRange, 'custom'>, number> = { '1M': 1, '3M': 3, '1Y': 12 };
+const SERIES_COLORS = ['#2b6cb0', '#c53030', '#2f855a', '#d69e2e', '#805ad5', '#dd6b20'];
+const MAX_SERIES = SERIES_COLORS.length;
+const Y_TICK_COUNT = 5;
+const X_TICK_COUNT = 6;
+const CLOCK_INTERVAL = 60 * 1000;
+
+@Component({
+  selector: 'app-rate-chart',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe, LocaleNumberPipe, LocaleDatePipe, RateStatsComponent],
+  templateUrl: './rate-chart.component.html',
+  styleUrl: './rate-chart.component.css'
+})
+export class RateChartComponent implements OnInit, OnDestroy {
+  // SVG viewBox geometry; the chart scales to its container width
+  readonly width = 800;
+  readonly height = 320;
+  readonly padding = { top: 16, right: 16, bottom: 32, left: 64 };
+  readonly ranges: ChartRange[] = ['1M', '3M', '1Y', 'custom'];
+  // Ticks every minute so the latest selectable date follows midnight
+  now = signal<Date>(new Date());
+  maxDate = computed(() => toIsoDate(this.now()));
+
+  availableCodes = signal<string[]>([]);
+  selectedCodes = signal<string[]>(['EUR']);
+  range = signal<ChartRange>('3M');
+  customFrom = signal<string>(addMonths(todayIsoDate(), -1));
+  // Empty string means today, until the user picks an end date
+  customTo = signal<string>('');
+  scale = signal<ChartScale>('rate');
+
+  responses = signal<ExchangeRateResponse[]>([]);
+  isLoading = signal<boolean>(false);
+  // A message key or the failed request, translated when read
+  private failure = signal<Error | MessageKey | null>(null);
+  error = computed(() => {
+    const failure = this.failure();
+    if (failure === null) {
+      return '';
+    }
+    return typeof failure === 'string'
+      ? this.translation.translate(failure)
+      : this.translation.describeError(failure);
+  });
+  hoverIndex = signal<number | null>(null);
+
+  dates = computed(() => this.responses().map(response => normalizeIsoDate(response.date)));
+
+  series = computed<RateSeries[]>(() => {
+    const series = buildRateSeries(this.responses(), this.selectedCodes());
+    return this.scale() === 'percent' ? series.map(toPercentChange) : series;
+  });
+
+  yDomain = computed(() => {
+    const values = this.series().flatMap(series => series.points.map(point => point.rate));
+    if (values.length === 0) {
+      return { min: 0, max: 1 };
+    }
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // Keep flat lines away from the chart edges
+    const margin = (max - min) * 0.05 || Math.abs(max) * 0.05 || 1;
+    return { min: min - margin, max: max + margin };
+  });
+
+  lines = computed<ChartLine[]>(() => {
+    const indexByDate = new Map(this.dates().map((date, index) => [date, index]));
+    return this.series().map((series, seriesIndex) => ({
+      code: series.code,
+      color: this.colorFor(seriesIndex),
+      path: series.points
+        .map((point, pointIndex) => {
+          const index = indexByDate.get(point.date) ?? 0;
+          const previous = pointIndex === 0 ? undefined : indexByDate.get(series.points[pointIndex - 1].date);
+          // A fixing in between that does not quote the currency starts a new subpath, leaving a gap
+          const command = previous !== undefined && index === previous + 1 ? 'L' : 'M';
+          return `${command}${this.xFor(index).toFixed(1)},${this.yFor(point.rate).toFixed(1)}`;
+        })
+        .join(' ')
+    }));
+  });
+
+  yTicks = computed(() => {
+    const { min, max } = this.yDomain();
+    return Array.from({ length: Y_TICK_COUNT }, (_, index) => {
+      const value = min + (max - min) * index / (Y_TICK_COUNT - 1);
+      return { value, y: this.yFor(value) };
+    });
+  });
+
+  xTicks = computed(() => {
+    const dates = this.dates();
+    if (dates.length === 0) {
+      return [];
+    }
+    const step = Math.max(1, Math.ceil(dates.length / X_TICK_COUNT));
+    return dates
+      .map((date, index) => ({ date, index }))
+      .filter(({ index }) => index % step === 0)
+      .map(({ date, index }) => ({ date, x: this.xFor(index) }));
+  });
+
+  tooltip = computed<Tooltip | null>(() => {
+    const index = this.hoverIndex();
+    const response = index === null ? undefined : this.responses()[index];
+    if (index === null || !response) {
+      return null;
+    }
+    const date = normalizeIsoDate(response.date);
+    return {
+      date,
+      sequenceNumber: response.sequenceNumber,
+      x: this.xFor(index),
+      values: this.series().flatMap((series, seriesIndex) => {
+        const point = series.points.find(item => item.date === date);
+        return point
+          ? [{
+            code: series.code,
+            color: this.colorFor(seriesIndex),
+            amount: point.amount,
+            rate: point.rate,
+            y: this.yFor(point.rate)
+          }]
+          : [];
+      })
+    };
+  });
+
+  private ratesSubscription: Subscription | null = null;
+  private seriesSubscription: Subscription | null = null;
+  private clockTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private translation: TranslationService
+  ) {}
+
+  ngOnInit(): void {
+    this.ratesSubscription = this.exchangeRateService.getExchangeRates().subscribe({
+      next: response => {
+        this.availableCodes.set(response.rates.map(rate => rate.code).sort((a, b) => a.localeCompare(b)));
+      },
+      error: () => {
+        // Currency choices fall back to the codes already selected
+      }
+    });
+    this.loadSeries();
+    this.clockTimer = setInterval(() => this.now.set(new Date()), CLOCK_INTERVAL);
+  }
+
+  ngOnDestroy(): void {
+    this.ratesSubscription?.unsubscribe();
+    this.seriesSubscription?.unsubscribe();
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer);
+    }
+  }
+
+  /**
+   * First and last date of the selected range
+   */
+  getRangeBounds(): { from: string; to: string } {
+    const range = this.range();
+    if (range === 'custom') {
+      return { from: this.customFrom(), to: this.customTo() || this.maxDate() };
+    }
+    const to = this.maxDate();
+    return { from: addMonths(to, -RANGE_MONTHS[range]), to };
+  }
+
+  loadSeries(): void {
+    const { from, to } = this.getRangeBounds();
+    if (!isIsoDate(from) || !isIsoDate(to) || from > to) {
+      this.failure.set('chart.invalidRange');
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.failure.set(null);
+    this.hoverIndex.set(null);
+
+    this.seriesSubscription?.unsubscribe();
+    this.seriesSubscription = this.exchangeRateService.getExchangeRatesForRange(from, to).subscribe({
+      next: responses => {
+        this.responses.set(responses);
+        this.isLoading.set(false);
+      },
+      error: (error: Error) => {
+        this.failure.set(error);
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  setRange(range: ChartRange): void {
+    this.range.set(range);
+    this.loadSeries();
+  }
+
+  onCustomRangeChange(from: string, to: string): void {
+    this.customFrom.set(from);
+    this.customTo.set(to);
+    if (this.range() === 'custom') {
+      this.loadSeries();
+    }
+  }
+
+  setScale(scale: ChartScale): void {
+    this.scale.set(scale);
+  }
+
+  addCode(code: string): void {
+    const codes = this.selectedCodes();
+    if (code && !codes.includes(code) && codes.length < MAX_SERIES) {
+      this.selectedCodes.set([...codes, code]);
+    }
+  }
+
+  removeCode(code: string): void {
+    this.selectedCodes.set(this.selectedCodes().filter(item => item !== code));
+  }
+
+  canAddCode(): boolean {
+    return this.selectedCodes().length < MAX_SERIES;
+  }
+
+  onPointerMove(event: MouseEvent, svg: Element): void {
+    const count = this.dates().length;
+    const bounds = svg.getBoundingClientRect();
+    if (count === 0 || bounds.width === 0) {
+      return;
+    }
+    const x = (event.clientX - bounds.left) * this.width / bounds.width;
+    const plotWidth = this.width - this.padding.left - this.padding.right;
+    const ratio = (x - this.padding.left) / plotWidth;
+    const index = Math.round(ratio * (count - 1));
+    this.hoverIndex.set(Math.min(count - 1, Math.max(0, index)));
+  }
+
+  onPointerLeave(): void {
+    this.hoverIndex.set(null);
+  }
+
+  colorFor(index: number): string {
+    return SERIES_COLORS[index % SERIES_COLORS.length];
+  }
+
+  private xFor(index: number): number {
+    const count = this.dates().length;
+    const plotWidth = this.width - this.padding.left - this.padding.right;
+    return this.padding.left + (count > 1 ? index / (count - 1) * plotWidth : plotWidth / 2);
+  }
+
+  private yFor(value: number): number {
+    const { min, max } = this.yDomain();
+    const plotHeight = this.height - this.padding.top - this.padding.bottom;
+    return this.padding.top + (1 - (value - min) / (max - min)) * plotHeight;
+  }
+}
@@ -0,0 +1,55 @@
+import { of } from 'rxjs';
+import { RateCompareComponent } from './rate-compare.component';
+import { TranslationService } from '../../services/translation.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+
+// Simple unit test without Angular TestBed
+describe('RateCompareComponent', () => {
+  let mockService: { getEffectiveFixing: ReturnType<typeof vi.fn> };
+  let component: RateCompareComponent;
+
+  const createResponse = (date: string, eurRate: number): ExchangeRateResponse => ({
+    date: `${date}T00:00:00`,
+    sequenceNumber: 236,
+    rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: eurRate }]
+  });
+
+  beforeEach(() => {
+    mockService = {
+      getEffectiveFixing: vi.fn().mockImplementation((date: string) => of(createResponse(date, 24.3)))
+    };
+    component = new RateCompareComponent(mockService as any, new TranslationService());
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
+  });
+
+  it('should allow picking the new day once the clock passes midnight', () => {
+    component.now.set(new Date(2025, 11, 5, 23, 59));
+    expect(component.maxDate()).toBe('2025-12-05');
+
+    component.now.set(new Date(2025, 11, 6, 0, 0));
+    expect(component.maxDate()).toBe('2025-12-06');
+  });
+
+  it('should compare the fixings again with the dates swapped', () => {
+    mockService.getEffectiveFixing.mockImplementation((date: string) => of(createResponse(date, date === '2025-12-01' ? 24 : 24.3)));
+    component.onDatesChange('2025-12-01', '2025-12-05');
+    expect(component.comparison()?.rows[0].absolute).toBeCloseTo(0.3);
+
+    component.swapDates();
+
+    expect(component.fromDate()).toBe('2025-12-05');
+    expect(component.toDate()).toBe('2025-12-01');
+    expect(mockService.getEffectiveFixing).toHaveBeenLastCalledWith('2025-12-01');
+    expect(component.comparison()?.rows[0].absolute).toBeCloseTo(-0.3);
+  });
+
+  it('should note the fixing used for a date without one of its own', () => {
+    mockService.getEffectiveFixing.mockImplementation((date: string) => of(createResponse(date === '2025-12-06' ? '2025-12-05' : date, 24.3)));
+    component.onDatesChange('2025-12-01', '2025-12-06');
+
+    expect(component.substitutions()).toEqual([{ date: '2025-12-06', fixingDate: '2025-12-05', sequenceNumber: 236 }]);
+  });
+});
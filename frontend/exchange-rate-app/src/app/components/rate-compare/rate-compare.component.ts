@@ -0,0 +1,126 @@
+import { Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription, forkJoin } from 'rxjs';
+import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { addMonths, isIsoDate, normalizeIsoDate, toIsoDate, todayIsoDate } from '../../utils/date-utils';
+import { biggestMovers, compareFixings } from '../../utils/rate-comparison';
+import { TranslationService } from '../../services/translation.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+import { MessageKey } from '../../i18n/i18n';
+
+const MOVER_COUNT = 5;
+const CLOCK_INTERVAL = 60 * 1000;
+
+@Component({
+  selector: 'app-rate-compare',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocaleNumberPipe, LocaleDatePipe],
+  templateUrl: './rate-compare.component.html',
+  styleUrl: './rate-compare.component.css'
+})
+export class RateCompareComponent implements OnInit, OnDestroy {
+  // Ticks every minute so the latest selectable date follows midnight
+  now = signal<Date>(new Date());
+  maxDate = computed(() => toIsoDate(this.now()));
+
+  fromDate = signal<string>(addMonths(todayIsoDate(), -1));
+  toDate = signal<string>(todayIsoDate());
+
+  fromFixing = signal<ExchangeRateResponse | null>(null);
+  toFixing = signal<ExchangeRateResponse | null>(null);
+  isLoading = signal<boolean>(false);
+  // A message key or the failed request, translated when read
+  private failure = signal<Error | MessageKey | null>(null);
+  error = computed(() => {
+    const failure = this.failure();
+    if (failure === null) {
+      return '';
+    }
+    return typeof failure === 'string'
+      ? this.translation.translate(failure)
+      : this.translation.describeError(failure);
+  });
+
+  comparison = computed(() => {
+    const from = this.fromFixing();
+    const to = this.toFixing();
+    return from && to ? compareFixings(from.rates, to.rates) : null;
+  });
+
+  movers = computed(() => biggestMovers(this.comparison()?.rows ?? [], MOVER_COUNT));
+
+  // Chosen dates without a fixing of their own, e.g. a weekend, and the fixing that applies instead
+  substitutions = computed(() =>
+    [{ date: this.fromDate(), fixing: this.fromFixing() }, { date: this.toDate(), fixing: this.toFixing() }]
+      .flatMap(({ date, fixing }) => fixing && normalizeIsoDate(fixing.date) !== date
+        ? [{ date, fixingDate: normalizeIsoDate(fixing.date), sequenceNumber: fixing.sequenceNumber }]
+        : [])
+  );
+
+  private compareSubscription: Subscription | null = null;
+  private clockTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private translation: TranslationService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadComparison();
+    this.clockTimer = setInterval(() => this.now.set(new Date()), CLOCK_INTERVAL);
+  }
+
+  ngOnDestroy(): void {
+    this.compareSubscription?.unsubscribe();
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer);
+    }
+  }
+
+  loadComparison(): void {
+    const from = this.fromDate();
+    const to = this.toDate();
+    if (!isIsoDate(from) || !isIsoDate(to)) {
+      this.failure.set('compare.invalidDates');
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.failure.set(null);
+
+    this.compareSubscription?.unsubscribe();
+    this.compareSubscription = forkJoin([
+      this.exchangeRateService.getEffectiveFixing(from),
+      this.exchangeRateService.getEffectiveFixing(to)
+    ]).subscribe({
+      next: ([fromFixing, toFixing]) => {
+        this.fromFixing.set(fromFixing);
+        this.toFixing.set(toFixing);
+        this.isLoading.set(false);
+      },
+      error: (error: Error) => {
+        this.fromFixing.set(null);
+        this.toFixing.set(null);
+        this.failure.set(error);
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  onDatesChange(from: string, to: string): void {
+    this.fromDate.set(from);
+    this.toDate.set(to);
+    this.loadComparison();
+  }
+
+  swapDates(): void {
+    this.onDatesChange(this.toDate(), this.fromDate());
+  }
+
+  fixingDate(fixing: ExchangeRateResponse): string {
+    return normalizeIsoDate(fixing.date);
+  }
+}
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { RateExportComponent } from './rate-export.component';
+import { ExchangeRate } from '../../models/exchange-rate.interface';
+
+describe('RateExportComponent', () => {
+  const rates: ExchangeRate[] = [
+    { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 },
+    { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 13.5 }
+  ];
+
+  const render = (inputs: Record<string, unknown>) => {
+    const fixture = TestBed.createComponent(RateExportComponent);
+    Object.entries({ rates, date: '2025-12-05', sequenceNumber: 236, ...inputs })
+      .forEach(([name, value]) => fixture.componentRef.setInput(name, value));
+    fixture.detectChanges();
+    return fixture;
+  };
+
+  it('should offer CNB daily.txt for the published CZK rates shown in the table', () => {
+    const fixture = render({});
+    const compiled = fixture.nativeElement as HTMLElement;
+    const formats = Array.from(compiled.querySelectorAll('option')).map(option => option.value);
+
+    expect(formats).toEqual(expect.arrayContaining(['csv', 'json', 'cnb']));
+    expect(compiled.querySelector('.export-info')?.textContent?.trim()).toBe('2 currencies, as shown in the table');
+
+    fixture.componentInstance.onFormatChange('cnb');
+    expect(fixture.componentInstance.content()).toContain('EMU|euro|1|EUR|24.300');
+  });
+
+  it('should fall back to CSV for rebased rates', () => {
+    const fixture = render({ mode: 'perUnit', base: 'EUR' });
+    fixture.componentInstance.onFormatChange('cnb');
+    fixture.detectChanges();
+    const compiled = fixture.nativeElement as HTMLElement;
+
+    expect(compiled.querySelector('option[value="cnb"]')).toBeNull();
+    expect(fixture.componentInstance.effectiveFormat()).toBe('csv');
+  });
+
+  it('should disable the actions while no rates are shown', () => {
+    const compiled = render({ rates: [] }).nativeElement as HTMLElement;
+    const buttons = Array.from(compiled.querySelectorAll<HTMLButtonElement>('.export-button'));
+
+    expect(buttons.length).toBe(2);
+    expect(buttons.every(button => button.disabled)).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { Component, computed, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ExchangeRate, ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { CSV_BYTE_ORDER_MARK, CSV_PRESETS, exportFileName, ExportFormat, exportMimeType, exportRates } from '../../utils/rate-export';
+import { downloadTextFile } from '../../utils/download';
+import { RateDisplayMode } from '../../utils/rate-display';
+import { BASE_CURRENCY_CODE } from '../../utils/currency-conversion';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+const COPIED_NOTICE_DURATION = 2000;
+
+@Component({
+  selector: 'app-rate-export',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe],
+  templateUrl: './rate-export.component.html',
+  styleUrl: './rate-export.component.css'
+})
+export class RateExportComponent {
+  // Exactly the rows shown in the table, after filtering and sorting
+  rates = input<ExchangeRate[]>([]);
+  date = input<string>('');
+  sequenceNumber = input<number>(0);
+  // How the rows were converted for display
+  mode = input<RateDisplayMode>('published');
+  base = input<string>(BASE_CURRENCY_CODE);
+  // CNB daily.txt only describes published CZK rates
+  cnbAvailable = computed(() => this.mode() === 'published' && this.base() === BASE_CURRENCY_CODE);
+
+  readonly csvPresets = CSV_PRESETS;
+  format = signal<ExportFormat>('csv');
+  csvPresetId = signal<string>(CSV_PRESETS[0].id);
+  copied = signal<boolean>(false);
+
+  // CSV takes over while CNB daily.txt is not available
+  effectiveFormat = computed<ExportFormat>(() =>
+    this.format() === 'cnb' && !this.cnbAvailable() ? 'csv' : this.format()
+  );
+
+  response = computed<ExchangeRateResponse>(() => ({
+    date: this.date(),
+    sequenceNumber: this.sequenceNumber(),
+    rates: this.rates()
+  }));
+
+  content = computed(() => {
+    const preset = CSV_PRESETS.find(item => item.id === this.csvPresetId()) ?? CSV_PRESETS[0];
+    return exportRates(this.response(), this.effectiveFormat(), preset.options, this.mode(), this.base());
+  });
+
+  onFormatChange(value: string): void {
+    this.format.set(value as ExportFormat);
+  }
+
+  onCsvPresetChange(value: string): void {
+    this.csvPresetId.set(value);
+  }
+
+  download(): void {
+    const format = this.effectiveFormat();
+    const content = format === 'csv' ? CSV_BYTE_ORDER_MARK + this.content() : this.content();
+    downloadTextFile(content, exportFileName(format, this.date()), exportMimeType(format));
+  }
+
+  async copy(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(this.content());
+      this.copied.set(true);
+      setTimeout(() => this.copied.set(false), COPIED_NOTICE_DURATION);
+    } catch {
+      // Clipboard access denied, downloading still works
+      this.copied.set(false);
+    }
+  }
+}
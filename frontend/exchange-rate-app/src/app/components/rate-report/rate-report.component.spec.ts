@@ -0,0 +1,57 @@
+import { of, throwError } from 'rxjs';
+import { RateReportComponent } from './rate-report.component';
+import { TranslationService } from '../../services/translation.service';
+import { ExchangeRateError } from '../../models/exchange-rate-error';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+
+// Simple unit test without Angular TestBed
+describe('RateReportComponent', () => {
+  let mockService: { getExchangeRatesForRange: ReturnType<typeof vi.fn> };
+  let component: RateReportComponent;
+
+  const createResponse = (date: string, eurRate: number): ExchangeRateResponse => ({
+    date: `${date}T00:00:00`,
+    sequenceNumber: 1,
+    rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: eurRate }]
+  });
+
+  beforeEach(() => {
+    mockService = {
+      getExchangeRatesForRange: vi.fn().mockReturnValue(of([createResponse('2024-01-02', 24.5), createResponse('2024-12-31', 25.5)]))
+    };
+    component = new RateReportComponent(mockService as any, new TranslationService());
+    component.ngOnInit();
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
+  });
+
+  it('should average the fixings of the chosen year', () => {
+    component.setPeriodKind('year');
+    component.setYear('2024');
+
+    expect(mockService.getExchangeRatesForRange).toHaveBeenLastCalledWith('2024-01-01', '2024-12-31');
+    expect(component.isLoading()).toBe(false);
+    expect(component.isPartial()).toBe(false);
+    expect(component.averages()).toEqual([expect.objectContaining({ code: 'EUR', average: 25, count: 2 })]);
+  });
+
+  it('should start a quarter from the month chosen before', () => {
+    component.setPeriodKind('month');
+    component.setYear('2024');
+    component.setPeriodIndex('5');
+    component.setPeriodKind('quarter');
+
+    expect(component.periodIndex()).toBe(2);
+    expect(mockService.getExchangeRatesForRange).toHaveBeenLastCalledWith('2024-04-01', '2024-06-30');
+  });
+
+  it('should show the error of a failed lookup and clear the averages', () => {
+    mockService.getExchangeRatesForRange.mockReturnValue(throwError(() => new ExchangeRateError('service-unavailable', 'Service Unavailable')));
+    component.setYear('2024');
+
+    expect(component.averages()).toEqual([]);
+    expect(component.error()).toBe(new TranslationService().translate('error.serviceUnavailable'));
+  });
+});
@@ -0,0 +1,160 @@
+import { Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { addMonths, todayIsoDate } from '../../utils/date-utils';
+import {
+  AVERAGE_PERIOD_KINDS,
+  AverageRate,
+  AveragePeriod,
+  AveragePeriodKind,
+  averagesFileName,
+  averagesToCsv,
+  computeAverageRates,
+  periodBounds
+} from '../../utils/rate-averages';
+import { CSV_BYTE_ORDER_MARK, CSV_PRESETS, exportMimeType } from '../../utils/rate-export';
+import { downloadTextFile } from '../../utils/download';
+import { TranslationService } from '../../services/translation.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+import { MessageKey } from '../../i18n/i18n';
+
+// The CNB has published its fixing since 1991
+const FIRST_YEAR = 1991;
+const PERIOD_COUNTS: Record<AveragePeriodKind, number> = { month: 12, quarter: 4, year: 1 };
+const PERIOD_KIND_LABELS: Record<AveragePeriodKind, MessageKey> = {
+  month: 'report.kind.month',
+  quarter: 'report.kind.quarter',
+  year: 'report.kind.year'
+};
+
+@Component({
+  selector: 'app-rate-report',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocaleNumberPipe, LocaleDatePipe],
+  templateUrl: './rate-report.component.html',
+  styleUrl: './rate-report.component.css'
+})
+export class RateReportComponent implements OnInit, OnDestroy {
+  readonly periodKinds = AVERAGE_PERIOD_KINDS;
+  readonly periodKindLabels = PERIOD_KIND_LABELS;
+  readonly csvPresets = CSV_PRESETS;
+  readonly years = yearsSince(FIRST_YEAR);
+  // The last complete month is shown first
+  private readonly lastMonth = addMonths(todayIsoDate(), -1);
+
+  periodKind = signal<AveragePeriodKind>('month');
+  year = signal<number>(Number(this.lastMonth.substring(0, 4)));
+  periodIndex = signal<number>(Number(this.lastMonth.substring(5, 7)));
+  csvPresetId = signal<string>(CSV_PRESETS[0].id);
+
+  responses = signal<ExchangeRateResponse[]>([]);
+  isLoading = signal<boolean>(false);
+  // A message key or the failed request, translated when read
+  private failure = signal<Error | MessageKey | null>(null);
+  error = computed(() => {
+    const failure = this.failure();
+    if (failure === null) {
+      return '';
+    }
+    return typeof failure === 'string'
+      ? this.translation.translate(failure)
+      : this.translation.describeError(failure);
+  });
+
+  period = computed<AveragePeriod>(() => ({ kind: this.periodKind(), year: this.year(), index: this.periodIndex() }));
+  // Months or quarters to choose from; none for a year
+  periodIndexes = computed(() => Array.from({ length: PERIOD_COUNTS[this.periodKind()] }, (_, index) => index + 1));
+  bounds = computed(() => periodBounds(this.period()));
+  averages = computed<AverageRate[]>(() => computeAverageRates(this.responses()));
+  // The period is still running, so its averages will change
+  isPartial = computed(() => this.bounds().to >= todayIsoDate());
+
+  private reportSubscription: Subscription | null = null;
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private translation: TranslationService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadReport();
+  }
+
+  ngOnDestroy(): void {
+    this.reportSubscription?.unsubscribe();
+  }
+
+  loadReport(): void {
+    const { from, to } = this.bounds();
+    const today = todayIsoDate();
+    if (from > today) {
+      this.reportSubscription?.unsubscribe();
+      this.responses.set([]);
+      this.failure.set('report.futurePeriod');
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.failure.set(null);
+
+    this.reportSubscription?.unsubscribe();
+    this.reportSubscription = this.exchangeRateService.getExchangeRatesForRange(from, to < today ? to : today).subscribe({
+      next: responses => {
+        this.responses.set(responses);
+        this.isLoading.set(false);
+      },
+      error: (error: Error) => {
+        this.responses.set([]);
+        this.failure.set(error);
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  setPeriodKind(kind: string): void {
+    const periodKind = kind as AveragePeriodKind;
+    // Start from the first month of the current choice, e.g. March → Q1 and Q2 → April
+    const month = Number(this.bounds().from.substring(5, 7));
+    this.periodKind.set(periodKind);
+    this.periodIndex.set(periodKind === 'quarter' ? Math.ceil(month / 3) : month);
+    this.loadReport();
+  }
+
+  setYear(year: string): void {
+    this.year.set(Number(year));
+    this.loadReport();
+  }
+
+  setPeriodIndex(index: string): void {
+    this.periodIndex.set(Number(index));
+    this.loadReport();
+  }
+
+  periodIndexLabel(index: number): string {
+    return this.periodKind() === 'quarter'
+      ? `Q${index}`
+      : this.translation.formatDate(new Date(this.year(), index - 1, 1), 'month');
+  }
+
+  onCsvPresetChange(value: string): void {
+    this.csvPresetId.set(value);
+  }
+
+  download(): void {
+    const preset = CSV_PRESETS.find(item => item.id === this.csvPresetId()) ?? CSV_PRESETS[0];
+    const content = averagesToCsv(this.averages(), this.period(), preset.options);
+    downloadTextFile(CSV_BYTE_ORDER_MARK + content, averagesFileName(this.period()), exportMimeType('csv'));
+  }
+}
+
+/**
+ * Years from the given one up to the current year, newest first
+ */
+function yearsSince(firstYear: number): number[] {
+  const currentYear = Number(todayIsoDate().substring(0, 4));
+  return Array.from({ length: currentYear - firstYear + 1 }, (_, index) => currentYear - index);
+}
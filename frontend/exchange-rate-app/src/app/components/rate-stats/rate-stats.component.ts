@@ -0,0 +1,34 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ExchangeRateResponse } from '../../models/exchange-rate.interface';
+import { buildRateSeries } from '../../utils/rate-series';
+import { computeRateStatistics, RateStatistics } from '../../utils/rate-statistics';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocaleNumberPipe } from '../../pipes/locale-number.pipe';
+import { LocaleDatePipe } from '../../pipes/locale-date.pipe';
+
+interface CurrencyStatistics {
+  code: string;
+  stats: RateStatistics;
+}
+
+@Component({
+  selector: 'app-rate-stats',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocaleNumberPipe, LocaleDatePipe],
+  templateUrl: './rate-stats.component.html',
+  styleUrl: './rate-stats.component.css'
+})
+export class RateStatsComponent {
+  // Fixings ordered by date, as loaded for the chart
+  responses = input<ExchangeRateResponse[]>([]);
+  codes = input<string[]>([]);
+
+  // Currencies without a single fixing in the range are left out
+  statistics = computed<CurrencyStatistics[]>(() =>
+    buildRateSeries(this.responses(), this.codes()).flatMap(series => {
+      const stats = computeRateStatistics(series.points);
+      return stats ? [{ code: series.code, stats }] : [];
+    })
+  );
+}
@@ -0,0 +1,51 @@
+import { CS_MESSAGES } from './messages.cs';
+import { EN_MESSAGES, MessageKey } from './messages.en';
+
+export type { MessageKey } from './messages.en';
+
+export type Language = 'cs' | 'en';
+
+/** Named formats for the localeDate pipe */
+export type DateStyle = 'date' | 'dateTime' | 'dayTime' | 'time' | 'month' | 'weekday';
+
+export type TranslateParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+export const LANGUAGES: readonly Language[] = ['cs', 'en'];
+
+/** Angular locale used for number and date formatting */
+export const LOCALE_IDS: Record<Language, string> = {
+  cs: 'cs',
+  en: 'en-US'
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = {
+  cs: CS_MESSAGES,
+  en: EN_MESSAGES
+};
+
+// Czech dates as the CNB writes them, e.g. 5. 12. 2025
+const DATE_FORMATS: Record<Language, Record<DateStyle, string>> = {
+  cs: { date: 'd. M. y', dateTime: 'd. M. y H:mm', dayTime: 'EEEE d. M. H:mm', time: 'H:mm:ss', month: 'LLLL', weekday: 'EEEE d. M. y' },
+  en: { date: 'd MMM y', dateTime: 'd MMM y, HH:mm', dayTime: 'EEE d MMM, HH:mm', time: 'HH:mm:ss', month: 'LLLL', weekday: 'EEEE d MMM y' }
+};
+
+/**
+ * Text for a key in the given language with {placeholders} filled in; unknown placeholders are kept
+ */
+export function translateMessage(language: Language, key: MessageKey, params: TranslateParams = {}): string {
+  const template = MESSAGES[language][key] ?? EN_MESSAGES[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function dateFormat(language: Language, style: DateStyle): string {
+  return DATE_FORMATS[language][style];
+}
+
+/**
+ * English translation, used where no TranslationService is at hand
+ */
+export const translateEnglish: Translate = (key, params) => translateMessage('en', key, params);
@@ -0,0 +1,241 @@
+import { MessageKey } from './messages.en';
+
+export const CS_MESSAGES: Record<MessageKey, string> = {
+  'title.rates': 'Kurzy devizového trhu',
+  'title.chart': 'Vývoj kurzů',
+  'title.compare': 'Porovnání kurzů',
+  'title.report': 'Průměrné kurzy',
+  'title.batch': 'Hromadný převod',
+  'title.alerts': 'Upozornění na kurzy',
+
+  'nav.rates': 'Kurzy',
+  'nav.chart': 'Graf',
+  'nav.compare': 'Porovnání',
+  'nav.report': 'Průměry',
+  'nav.batch': 'Hromadně',
+  'nav.alerts': 'Upozornění',
+  'nav.language': 'Jazyk',
+
+  'common.tryAgain': 'Zkusit znovu',
+  'common.refresh': 'Obnovit',
+  'common.dismiss': 'Zavřít',
+
+  'rates.title': 'Kurzy devizového trhu',
+  'rates.subtitle.current': 'Aktuální kurzy vyhlašované Českou národní bankou',
+  'rates.subtitle.historical': 'Historické kurzy vyhlášené Českou národní bankou',
+  'rates.fixingDate': 'Datum kurzu',
+  'rates.showLatest': 'Zobrazit aktuální',
+  'rates.lastUpdated': 'Platné ke dni: {date}',
+  'rates.sequence': 'Pořadové číslo {number}',
+  'rates.nextFixing': 'Další kurzy se očekávají {time}',
+  'rates.staleTitle': 'Službu kurzů se nepodařilo kontaktovat',
+  'rates.staleSince': 'Neaktuální od {time}',
+  'rates.updating': 'Aktualizace…',
+  'rates.loading': 'Načítání kurzů...',
+  'rates.errorTitle': 'Kurzy se nepodařilo načíst',
+  'rates.errorReference': 'Referenční kód: {reference}',
+  'rates.showLatestRates': 'Zobrazit aktuální kurzy',
+  'rates.fallbackNotice': '{date} → použit kurzovní lístek z {previousDate} č. {number}, poslední vyhlášený k tomuto dni.',
+  'rates.searchPlaceholder': 'Hledat podle země, měny nebo kódu...',
+  'rates.searchLabel': 'Hledat kurzy',
+  'rates.clearSearchLabel': 'Vymazat hledání',
+  'rates.favoritesOnly': 'Jen oblíbené',
+  'rates.showing': 'Zobrazeno {shown} z {total} měn',
+  'rates.changeVs': '· změna oproti kurzům ze dne {date}',
+  'rates.sortBy': 'Seřadit podle sloupce {column}, se Shiftem přidat k současnému řazení',
+  'rates.filters': 'Filtry',
+  'rates.rangeFrom': 'od',
+  'rates.rangeTo': 'do',
+  'rates.rangeMinLabel': 'Nejnižší hodnota: {column}',
+  'rates.rangeMaxLabel': 'Nejvyšší hodnota: {column}',
+  'rates.clearFilters': 'Zrušit filtry',
+  'rates.noRangeMatch': 'Zadaným rozsahům neodpovídá žádná měna',
+  'rates.favoriteAdd': 'Přidat {code} do oblíbených',
+  'rates.favoriteRemove': 'Odebrat {code} z oblíbených',
+  'rates.noFavoritesMatch': 'Hledání „{term}“ neodpovídá žádná oblíbená měna',
+  'rates.showAll': 'Zobrazit všechny měny',
+  'rates.noMatch': 'Hledání „{term}“ neodpovídá žádná měna',
+  'rates.clearSearch': 'Vymazat hledání',
+  'rates.rebased': 'Křížové kurzy vůči {base} vypočtené z kurzů ČNB',
+  'rates.baseCountry': 'Česká republika',
+  'rates.baseCurrency': 'koruna',
+  'rates.noData': 'Kurzy momentálně nejsou k dispozici.',
+  'rates.droppedRates': 'Počet chybných kurzů ze serveru, které se nezobrazují: {count}.',
+  'rates.newFixing': 'Byly vyhlášeny nové kurzy platné ke dni {date}.',
+  'rates.newFixingApply': 'Zobrazit nové kurzy',
+
+  'column.favorite': 'Oblíbené',
+  'column.country': 'Země',
+  'column.currency': 'Měna',
+  'column.amount': 'Množství',
+  'column.code': 'Kód',
+  'column.rate': 'Kurz ({base})',
+  'column.unitRate': 'Za jednotku ({base})',
+  'column.inverseRate': 'Jednotek za 1 {base}',
+  'column.change': 'Změna',
+  'column.changePercent': 'Změna %',
+
+  'display.label': 'Zobrazit kurzy',
+  'display.published': 'Jak jsou vyhlášeny',
+  'display.perUnit': 'Za 1 jednotku',
+  'display.inverse': 'Za 1 {base}',
+  'display.base': 'Základní měna',
+
+  'freshness.current': 'Aktuální',
+  'freshness.awaiting': 'Čeká se na dnešní kurzy',
+  'freshness.stale': 'Neaktuální',
+
+  'error.offline': 'Jste offline. Kurzy se načtou, jakmile budete znovu připojeni.',
+  'error.network': 'Server kurzů není dostupný. Zkontrolujte připojení a zkuste to znovu.',
+  'error.serviceUnavailable': 'Služba České národní banky je dočasně nedostupná. Zkuste to prosím za několik minut.',
+  'error.notFound': 'K tomuto dni nebyly vyhlášeny žádné kurzy.',
+  'error.invalidDate': 'Toto není platné datum. Vyberte prosím datum v kalendáři.',
+  'error.timeout': 'Server kurzů neodpověděl včas. Zkuste to prosím znovu.',
+  'error.parse': 'Data kurzů se nepodařilo přečíst. Zkuste to prosím později.',
+  'error.server': 'Server kurzů nemohl požadavek zpracovat (kód {status}). Zkuste to prosím později.',
+  'error.unknown': 'Došlo k neznámé chybě',
+
+  'health.backendUnhealthy': 'Server kurzů není dostupný. Zobrazené kurzy nemusí být aktuální.',
+  'health.backendDegraded': 'Server kurzů hlásí omezený provoz. Kurzy se mohou načítat pomalu nebo nemusí být aktuální.',
+  'health.cnbUnavailable': 'Služba České národní banky je momentálně nedostupná. Nové kurzy se mohou zpozdit.',
+  'health.state.healthy': 'V pořádku',
+  'health.state.degraded': 'Omezený provoz',
+  'health.state.unhealthy': 'Nedostupný',
+  'health.state.unknown': 'Neznámý',
+  'health.server': 'Server',
+  'health.cnb': 'ČNB',
+  'health.checkAgain': 'Zkontrolovat znovu',
+  'health.details': 'Podrobnosti',
+  'health.lastChecked': 'Naposledy zkontrolováno v {time}',
+  'health.serverInfo': 'Verze {version} · {environment} · v provozu {uptime}',
+  'health.noDetails': 'Podrobnosti o serveru nejsou k dispozici.',
+
+  'converter.label': 'Převodník měn',
+  'converter.title': 'Převodník',
+  'converter.amount': 'Částka',
+  'converter.amountLabel': 'Částka k převodu',
+  'converter.from': 'Z',
+  'converter.fromLabel': 'Převést z',
+  'converter.to': 'Na',
+  'converter.toLabel': 'Převést na',
+  'converter.swap': 'Prohodit měny',
+  'converter.noRate': 'Pro tuto dvojici není kurz k dispozici.',
+
+  'export.label': 'Export kurzů',
+  'export.title': 'Export',
+  'export.format': 'Formát',
+  'export.delimiter': 'Oddělovač',
+  'export.preset.comma': 'Čárka (,)',
+  'export.preset.semicolon': 'Středník (;) – český Excel',
+  'export.preset.tab': 'Tabulátor',
+  'export.download': 'Stáhnout',
+  'export.copy': 'Kopírovat',
+  'export.copied': 'Zkopírováno',
+  'export.info': 'Počet měn: {count}, jak jsou zobrazeny v tabulce',
+
+  'chart.title': 'Vývoj kurzů',
+  'chart.range': 'Období',
+  'chart.custom': 'Vlastní',
+  'chart.fromDate': 'Od data',
+  'chart.toDate': 'Do data',
+  'chart.scale': 'Měřítko',
+  'chart.removeCode': 'Odebrat {code}',
+  'chart.addCurrency': '+ Přidat měnu',
+  'chart.addCurrencyLabel': 'Přidat měnu',
+  'chart.loading': 'Načítání vývoje kurzů...',
+  'chart.invalidRange': 'Vyberte prosím platné období.',
+  'chart.empty': 'Ve zvoleném období nebyly vyhlášeny žádné kurzy.',
+  'chart.label': 'Graf vývoje kurzů',
+  'chart.rangeInfo': 'Počet kurzovních lístků: {count}, od {from} do {to}',
+
+  'stats.title': 'Statistiky',
+  'stats.count': 'Počet kurzů',
+  'stats.min': 'Minimum',
+  'stats.max': 'Maximum',
+  'stats.mean': 'Průměr',
+  'stats.median': 'Medián',
+  'stats.standardDeviation': 'Směrodatná odchylka',
+  'stats.volatility': 'Denní volatilita',
+  'stats.volatilityHint': 'Směrodatná odchylka změn mezi po sobě jdoucími kurzy',
+  'stats.maxDrawdown': 'Maximální propad',
+  'stats.info': 'Kurzy v CZK za množství z posledního kurzovního lístku, za období zobrazené v grafu.',
+
+  'compare.title': 'Porovnání kurzů',
+  'compare.from': 'Od',
+  'compare.to': 'Do',
+  'compare.swap': 'Prohodit data',
+  'compare.loading': 'Načítání kurzovních lístků...',
+  'compare.invalidDates': 'Vyberte prosím dvě platná data.',
+  'compare.fixings': 'Kurzovní lístek z {from} č. {fromNumber} ve srovnání s {to} č. {toNumber}',
+  'compare.movers': 'Největší pohyby',
+  'compare.fromRate': 'Od (CZK)',
+  'compare.toRate': 'Do (CZK)',
+  'compare.added': 'Přidáno do lístku:',
+  'compare.removed': 'Odebráno z lístku:',
+
+  'report.title': 'Průměrné kurzy',
+  'report.subtitle': 'Aritmetické průměry denních kurzů ČNB',
+  'report.period': 'Období',
+  'report.kind.month': 'Měsíc',
+  'report.kind.quarter': 'Čtvrtletí',
+  'report.kind.year': 'Rok',
+  'report.year': 'Rok',
+  'report.loading': 'Načítání kurzovních lístků...',
+  'report.futurePeriod': 'Pro toto období zatím nebyly vyhlášeny žádné kurzy.',
+  'report.empty': 'V tomto období nebyly vyhlášeny žádné kurzy.',
+  'report.range': '{from} – {to}, průměr z {count} kurzovních lístků',
+  'report.partial': 'Období ještě neskončilo',
+  'report.average': 'Průměrný kurz (CZK)',
+  'report.fixings': 'Počet kurzů',
+  'report.download': 'Stáhnout CSV',
+
+  'batch.title': 'Hromadný převod',
+  'batch.subtitle': 'Převod položek faktur na CZK kurzem ČNB platným ke dni každé položky',
+  'batch.inputLabel': 'Položky faktur',
+  'batch.placeholder': 'Datum, částka, měna – jedna položka na řádek, např.\n2025-12-06;1250,50;EUR\n5. 12. 2025;10000;JPY',
+  'batch.upload': 'Nahrát CSV',
+  'batch.clear': 'Vymazat',
+  'batch.convert': 'Převést',
+  'batch.converting': 'Vyhledávání kurzů...',
+  'batch.empty': 'Nebyly nalezeny žádné položky. Zadejte na každý řádek datum, částku a měnu.',
+  'batch.summary': 'Řádků: {count}, označených: {flagged}, celkem {total} CZK',
+  'batch.line': 'Řádek',
+  'batch.date': 'Datum',
+  'batch.fixing': 'Použitý kurz',
+  'batch.czkAmount': 'Částka (CZK)',
+  'batch.download': 'Stáhnout CSV',
+  'batch.issue.invalidDate': 'Neznámé datum',
+  'batch.issue.invalidAmount': 'Neznámá částka',
+  'batch.issue.futureDate': 'Pro budoucí datum zatím žádný kurz neplatí',
+  'batch.issue.noFixing': 'K tomuto dni ani dříve nebyl vyhlášen žádný kurz',
+  'batch.issue.unknownCurrency': 'Neznámá měna',
+  'alerts.title': 'Upozornění na kurzy',
+  'alerts.subtitle': 'Upozornění, když nově vyhlášený kurz ČNB splní vaše pravidlo',
+  'alerts.permission.default': 'Oznámení prohlížeče jsou vypnutá, shody se zobrazí níže.',
+  'alerts.permission.request': 'Povolit oznámení',
+  'alerts.permission.granted': 'Shody se zobrazí jako oznámení prohlížeče.',
+  'alerts.permission.denied': 'Oznámení jsou pro tento web zablokovaná, shody se zobrazí níže.',
+  'alerts.permission.unsupported': 'Tento prohlížeč oznámení nepodporuje, shody se zobrazí níže.',
+  'alerts.rules': 'Pravidla',
+  'alerts.condition': 'Podmínka',
+  'alerts.value': 'Hranice',
+  'alerts.codePlaceholder': 'EUR',
+  'alerts.ratePlaceholder': 'Kurz v CZK',
+  'alerts.percentPlaceholder': 'Změna v %',
+  'alerts.add': 'Přidat pravidlo',
+  'alerts.remove': 'Odebrat',
+  'alerts.noRules': 'Zatím žádná pravidla.',
+  'alerts.kind.above': 'nad',
+  'alerts.kind.below': 'pod',
+  'alerts.kind.change': 'změna proti předchozímu dni o více než',
+  'alerts.kind.newFixing': 'vyhlášen nový kurz',
+  'alerts.triggered': 'Spuštěná upozornění',
+  'alerts.noAlerts': 'Žádné upozornění zatím nebylo spuštěno.',
+  'alerts.clear': 'Vymazat vše',
+  'alerts.dismiss': 'Zavřít',
+  'alerts.notificationTitle': 'Upozornění na kurz ČNB',
+  'alerts.match.above': '{code} je {actual} CZK, nad {value} ({date} č. {number})',
+  'alerts.match.below': '{code} je {actual} CZK, pod {value} ({date} č. {number})',
+  'alerts.match.change': '{code} se proti předchozímu kurzu změnil o {actual} % ({date} č. {number})',
+  'alerts.match.newFixing': 'Byl vyhlášen kurz č. {number} ze dne {date}'
+};
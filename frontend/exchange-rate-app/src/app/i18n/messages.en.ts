@@ -0,0 +1,245 @@
+/**
+ * English UI texts, also the reference for the keys every other language has to provide.
+ * Placeholders in braces are filled in by TranslationService.translate.
+ */
+export const EN_MESSAGES = {
+  'title.rates': 'Exchange Rates',
+  'title.chart': 'Rate History',
+  'title.compare': 'Compare Fixings',
+  'title.report': 'Average Rates',
+  'title.batch': 'Batch Conversion',
+  'title.alerts': 'Rate Alerts',
+
+  'nav.rates': 'Rates',
+  'nav.chart': 'Chart',
+  'nav.compare': 'Compare',
+  'nav.report': 'Averages',
+  'nav.batch': 'Batch',
+  'nav.alerts': 'Alerts',
+  'nav.language': 'Language',
+
+  'common.tryAgain': 'Try Again',
+  'common.refresh': 'Refresh',
+  'common.dismiss': 'Dismiss',
+
+  'rates.title': 'Exchange Rates',
+  'rates.subtitle.current': 'Current exchange rates from Czech National Bank',
+  'rates.subtitle.historical': 'Historical exchange rates from Czech National Bank',
+  'rates.fixingDate': 'Fixing date',
+  'rates.showLatest': 'Show latest',
+  'rates.lastUpdated': 'Last updated: {date}',
+  'rates.sequence': 'Sequence #{number}',
+  'rates.nextFixing': 'Next fixing expected {time}',
+  'rates.staleTitle': 'The exchange rate service could not be reached',
+  'rates.staleSince': 'Stale since {time}',
+  'rates.updating': 'Updating…',
+  'rates.loading': 'Loading exchange rates...',
+  'rates.errorTitle': 'Unable to load exchange rates',
+  'rates.errorReference': 'Reference: {reference}',
+  'rates.showLatestRates': 'Show Latest Rates',
+  'rates.fallbackNotice': '{date} → using fixing of {previousDate} #{number}, the last one published by then.',
+  'rates.searchPlaceholder': 'Search by country, currency, or code...',
+  'rates.searchLabel': 'Search exchange rates',
+  'rates.clearSearchLabel': 'Clear search',
+  'rates.favoritesOnly': 'Favorites only',
+  'rates.showing': 'Showing {shown} of {total} currencies',
+  'rates.changeVs': '· change vs. fixing of {date}',
+  'rates.sortBy': 'Sort by {column}, Shift+click to add it to the current sort',
+  'rates.filters': 'Filters',
+  'rates.rangeFrom': 'from',
+  'rates.rangeTo': 'to',
+  'rates.rangeMinLabel': 'Lowest {column}',
+  'rates.rangeMaxLabel': 'Highest {column}',
+  'rates.clearFilters': 'Clear filters',
+  'rates.noRangeMatch': 'No currencies are within the filtered ranges',
+  'rates.favoriteAdd': 'Add {code} to favorites',
+  'rates.favoriteRemove': 'Remove {code} from favorites',
+  'rates.noFavoritesMatch': 'No favorite currencies match your search "{term}"',
+  'rates.showAll': 'Show All Currencies',
+  'rates.noMatch': 'No currencies match your search "{term}"',
+  'rates.clearSearch': 'Clear Search',
+  'rates.rebased': 'Cross rates against {base}, computed from the CNB fixing',
+  'rates.baseCountry': 'Czech Republic',
+  'rates.baseCurrency': 'koruna',
+  'rates.noData': 'No exchange rates available at the moment.',
+  'rates.droppedRates': '{count} malformed rates sent by the server are not shown.',
+  'rates.newFixing': 'New exchange rates were published for {date}.',
+  'rates.newFixingApply': 'Show new rates',
+
+  'column.favorite': 'Favorite',
+  'column.country': 'Country',
+  'column.currency': 'Currency',
+  'column.amount': 'Amount',
+  'column.code': 'Code',
+  'column.rate': 'Rate ({base})',
+  'column.unitRate': 'Per unit ({base})',
+  'column.inverseRate': 'Units per 1 {base}',
+  'column.change': 'Change',
+  'column.changePercent': 'Change %',
+
+  'display.label': 'Show rates',
+  'display.published': 'As published',
+  'display.perUnit': 'Per 1 unit',
+  'display.inverse': 'Per 1 {base}',
+  'display.base': 'Base currency',
+
+  'freshness.current': 'Current',
+  'freshness.awaiting': 'Awaiting today\'s fixing',
+  'freshness.stale': 'Stale',
+
+  'error.offline': 'You appear to be offline. Rates will load again once you are back online.',
+  'error.network': 'Unable to reach the exchange rate server. Please check your connection and try again.',
+  'error.serviceUnavailable': 'The Czech National Bank service is temporarily unavailable. Please try again in a few minutes.',
+  'error.notFound': 'No exchange rates were published for this date.',
+  'error.invalidDate': 'This is not a valid date. Please pick a date from the calendar.',
+  'error.timeout': 'The exchange rate server took too long to respond. Please try again.',
+  'error.parse': 'The exchange rate data could not be read. Please try again later.',
+  'error.server': 'The exchange rate server could not handle the request (code {status}). Please try again later.',
+  'error.unknown': 'An unknown error occurred',
+
+  'health.backendUnhealthy': 'The exchange rate server cannot be reached. Rates shown may be out of date.',
+  'health.backendDegraded': 'The exchange rate server reports degraded service. Rates may load slowly or be out of date.',
+  'health.cnbUnavailable': 'The Czech National Bank service is currently unavailable. New fixings may be delayed.',
+  'health.state.healthy': 'OK',
+  'health.state.degraded': 'Degraded',
+  'health.state.unhealthy': 'Unavailable',
+  'health.state.unknown': 'Unknown',
+  'health.server': 'Server',
+  'health.cnb': 'CNB',
+  'health.checkAgain': 'Check again',
+  'health.details': 'Details',
+  'health.lastChecked': 'Last checked {time}',
+  'health.serverInfo': 'Version {version} · {environment} · up {uptime}',
+  'health.noDetails': 'Server details are not available.',
+
+  'converter.label': 'Currency converter',
+  'converter.title': 'Converter',
+  'converter.amount': 'Amount',
+  'converter.amountLabel': 'Amount to convert',
+  'converter.from': 'From',
+  'converter.fromLabel': 'Convert from',
+  'converter.to': 'To',
+  'converter.toLabel': 'Convert to',
+  'converter.swap': 'Swap currencies',
+  'converter.noRate': 'No rate available for this pair.',
+
+  'export.label': 'Export rates',
+  'export.title': 'Export',
+  'export.format': 'Format',
+  'export.delimiter': 'Delimiter',
+  'export.preset.comma': 'Comma (,)',
+  'export.preset.semicolon': 'Semicolon (;) – Czech Excel',
+  'export.preset.tab': 'Tab',
+  'export.download': 'Download',
+  'export.copy': 'Copy',
+  'export.copied': 'Copied',
+  'export.info': '{count} currencies, as shown in the table',
+
+  'chart.title': 'Rate History',
+  'chart.range': 'Range',
+  'chart.custom': 'Custom',
+  'chart.fromDate': 'From date',
+  'chart.toDate': 'To date',
+  'chart.scale': 'Scale',
+  'chart.removeCode': 'Remove {code}',
+  'chart.addCurrency': '+ Add currency',
+  'chart.addCurrencyLabel': 'Add currency',
+  'chart.loading': 'Loading rate history...',
+  'chart.invalidRange': 'Please select a valid date range.',
+  'chart.empty': 'No fixings were published in the selected range.',
+  'chart.label': 'Exchange rate history chart',
+  'chart.rangeInfo': '{count} fixings from {from} to {to}',
+
+  'stats.title': 'Statistics',
+  'stats.count': 'Fixings',
+  'stats.min': 'Minimum',
+  'stats.max': 'Maximum',
+  'stats.mean': 'Mean',
+  'stats.median': 'Median',
+  'stats.standardDeviation': 'Standard deviation',
+  'stats.volatility': 'Daily volatility',
+  'stats.volatilityHint': 'Standard deviation of the changes between consecutive fixings',
+  'stats.maxDrawdown': 'Max drawdown',
+  'stats.info': 'Rates in CZK for the amount of the most recent fixing, over the range shown in the chart.',
+
+  'compare.title': 'Compare Fixings',
+  'compare.from': 'From',
+  'compare.to': 'To',
+  'compare.swap': 'Swap dates',
+  'compare.loading': 'Loading fixings...',
+  'compare.invalidDates': 'Please select two valid dates.',
+  'compare.fixings': 'Fixing of {from} #{fromNumber} compared with {to} #{toNumber}',
+  'compare.movers': 'Biggest movers',
+  'compare.fromRate': 'From (CZK)',
+  'compare.toRate': 'To (CZK)',
+  'compare.added': 'Added to the list:',
+  'compare.removed': 'Removed from the list:',
+
+  'report.title': 'Average Rates',
+  'report.subtitle': 'Arithmetic averages of the daily CNB fixings',
+  'report.period': 'Period',
+  'report.kind.month': 'Month',
+  'report.kind.quarter': 'Quarter',
+  'report.kind.year': 'Year',
+  'report.year': 'Year',
+  'report.loading': 'Loading fixings...',
+  'report.futurePeriod': 'No fixings have been published for this period yet.',
+  'report.empty': 'No fixings were published in this period.',
+  'report.range': '{from} – {to}, averaged over {count} fixings',
+  'report.partial': 'Period not finished yet',
+  'report.average': 'Average rate (CZK)',
+  'report.fixings': 'Fixings',
+  'report.download': 'Download CSV',
+
+  'batch.title': 'Batch Conversion',
+  'batch.subtitle': 'Convert invoice lines to CZK at the CNB rate applicable on each date',
+  'batch.inputLabel': 'Invoice lines',
+  'batch.placeholder': 'Date, amount, currency – one line per invoice, e.g.\n2025-12-06;1250,50;EUR\n5. 12. 2025;10000;JPY',
+  'batch.upload': 'Upload CSV',
+  'batch.clear': 'Clear',
+  'batch.convert': 'Convert',
+  'batch.converting': 'Looking up rates...',
+  'batch.empty': 'No invoice lines were found. Enter one line of date, amount and currency per invoice.',
+  'batch.summary': '{count} lines, {flagged} flagged, {total} CZK in total',
+  'batch.line': 'Line',
+  'batch.date': 'Date',
+  'batch.fixing': 'Fixing used',
+  'batch.czkAmount': 'Amount (CZK)',
+  'batch.download': 'Download CSV',
+  'batch.issue.invalidDate': 'Unknown date',
+  'batch.issue.invalidAmount': 'Unknown amount',
+  'batch.issue.futureDate': 'No rate applies to a future date yet',
+  'batch.issue.noFixing': 'No fixing was published on or before this date',
+  'batch.issue.unknownCurrency': 'Unknown currency',
+  'alerts.title': 'Rate Alerts',
+  'alerts.subtitle': 'Get notified when a newly published CNB fixing matches your rules',
+  'alerts.permission.default': 'Browser notifications are off, matches are listed below.',
+  'alerts.permission.request': 'Enable notifications',
+  'alerts.permission.granted': 'Matches are shown as browser notifications.',
+  'alerts.permission.denied': 'Browser notifications are blocked for this site, matches are listed below.',
+  'alerts.permission.unsupported': 'This browser does not support notifications, matches are listed below.',
+  'alerts.rules': 'Rules',
+  'alerts.condition': 'Condition',
+  'alerts.value': 'Threshold',
+  'alerts.codePlaceholder': 'EUR',
+  'alerts.ratePlaceholder': 'Rate in CZK',
+  'alerts.percentPlaceholder': 'Change in %',
+  'alerts.add': 'Add rule',
+  'alerts.remove': 'Remove',
+  'alerts.noRules': 'No rules yet.',
+  'alerts.kind.above': 'above',
+  'alerts.kind.below': 'below',
+  'alerts.kind.change': 'moved day over day by more than',
+  'alerts.kind.newFixing': 'new fixing published',
+  'alerts.triggered': 'Triggered alerts',
+  'alerts.noAlerts': 'No alerts have been triggered.',
+  'alerts.clear': 'Clear all',
+  'alerts.dismiss': 'Dismiss',
+  'alerts.notificationTitle': 'CNB rate alert',
+  'alerts.match.above': '{code} is {actual} CZK, above {value} ({date} #{number})',
+  'alerts.match.below': '{code} is {actual} CZK, below {value} ({date} #{number})',
+  'alerts.match.change': '{code} moved {actual} % against the previous fixing ({date} #{number})',
+  'alerts.match.newFixing': 'Fixing #{number} of {date} has been published'
+} as const;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
@@ -0,0 +1,29 @@
+import { Injectable, effect, signal } from '@angular/core';
+import { Title } from '@angular/platform-browser';
+import { RouterStateSnapshot, TitleStrategy } from '@angular/router';
+import { TranslationService } from '../services/translation.service';
+import { MessageKey } from './i18n';
+
+/**
+ * Route titles are message keys; the document title follows both navigation and language switches
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TranslatedTitleStrategy extends TitleStrategy {
+  private readonly titleKey = signal<MessageKey | null>(null);
+
+  constructor(private title: Title, private translation: TranslationService) {
+    super();
+    effect(() => {
+      const key = this.titleKey();
+      if (key) {
+        this.title.setTitle(this.translation.translate(key));
+      }
+    });
+  }
+
+  override updateTitle(snapshot: RouterStateSnapshot): void {
+    this.titleKey.set((this.buildTitle(snapshot) as MessageKey | undefined) ?? null);
+  }
+}
@@ -10,18 +10,21 @@ import { TestBed } from '@angular/core/testing';
 import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 import { ComponentFixture } from '@angular/core/testing';
 import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
 import { ExchangeRateComponent } from '../components/exchange-rate/exchange-rate.component';
 import { ExchangeRateService } from '../services/exchange-rate.service';
 import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { apiEndpoint, APP_CONFIG, DEFAULT_APP_CONFIG } from '../utils/app-config';
 
 describe('End-to-End Integration Tests', () => {
   let component: ExchangeRateComponent;
   let fixture: ComponentFixture<ExchangeRateComponent>;
   let service: ExchangeRateService;
   let httpMock: HttpTestingController;
+  const ratesUrl = apiEndpoint(DEFAULT_APP_CONFIG, 'exchange-rates');
 
   const mockExchangeRateResponse: ExchangeRateResponse = {
-    date: new Date('2024-01-03'),
+    date: '2024-01-03T00:00:00',
     sequenceNumber: 1,
     rates: [
       {
@@ -48,12 +51,30 @@ describe('End-to-End Integration Tests', () => {
     ]
   };
 
+  // The table is sorted by country by default
+  const [aud, usd, gbp] = mockExchangeRateResponse.rates;
+  const ratesByCountry = [aud, gbp, usd];
+
+  const previousFixingResponse: ExchangeRateResponse = {
+    ...mockExchangeRateResponse,
+    date: '2024-01-02T00:00:00',
+    sequenceNumber: 0
+  };
+
+  // The change columns compare with the fixing of the previous business day
+  const flushPreviousFixing = () => {
+    httpMock.expectOne(`${ratesUrl}/2024-01-02`).flush(previousFixingResponse);
+  };
+
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [ExchangeRateComponent],
       providers: [
         provideHttpClient(),
         provideHttpClientTesting(),
+        provideRouter([]),
+        // Persisted rates are covered by the service spec
+        { provide: APP_CONFIG, useValue: { ...DEFAULT_APP_CONFIG, cache: { ...DEFAULT_APP_CONFIG.cache, persist: false } } },
         ExchangeRateService
       ]
     }).compileComponents();
@@ -75,23 +96,21 @@ describe('End-to-End Integration Tests', () => {
     fixture.detectChanges();
 
     // Verify HTTP request was made
-    const req = httpMock.expectOne(request => 
-      request.url.includes('/api/v1/exchange-rates') && request.method === 'GET'
-    );
+    const req = httpMock.expectOne(ratesUrl);
     expect(req.request.method).toBe('GET');
-    expect(req.request.headers.get('Accept')).toBe('application/json');
 
     // Respond with mock data
     req.flush(mockExchangeRateResponse);
+    flushPreviousFixing();
     
     // Wait for async operations to complete
     await fixture.whenStable();
     fixture.detectChanges();
 
     // Assert - Verify data flows through to component
-    expect(component.exchangeRates()).toEqual(mockExchangeRateResponse.rates);
-    expect(component.loading()).toBe(false);
-    expect(component.error()).toBe(null);
+    expect(component.exchangeRates()).toEqual(ratesByCountry);
+    expect(component.isLoading()).toBe(false);
+    expect(component.error()).toBe('');
 
     // Assert - Verify data is displayed in DOM
     const compiled = fixture.nativeElement as HTMLElement;
@@ -100,21 +119,15 @@ describe('End-to-End Integration Tests', () => {
     expect(tableRows.length).toBe(3);
     
     // Verify first row data
-    const firstRowCells = tableRows[0].querySelectorAll('td');
-    expect(firstRowCells[0].textContent?.trim()).toBe('Australia');
-    expect(firstRowCells[1].textContent?.trim()).toBe('dollar');
-    expect(firstRowCells[2].textContent?.trim()).toBe('1');
-    expect(firstRowCells[3].textContent?.trim()).toBe('AUD');
-    expect(firstRowCells[4].textContent?.trim()).toBe('23.282');
+    expect(tableRows[0].querySelector('.country-cell')?.textContent?.trim()).toBe('Australia');
+    expect(tableRows[0].querySelector('.currency-cell')?.textContent?.trim()).toBe('dollar');
+    expect(tableRows[0].querySelector('.amount-cell')?.textContent?.trim()).toBe('1');
+    expect(tableRows[0].querySelector('.code-cell')?.textContent?.trim()).toBe('AUD');
+    expect(tableRows[0].querySelector('.rate-cell')?.textContent?.trim()).toBe('23.282');
 
-    // Verify table headers are present
-    const headers = compiled.querySelectorAll('th');
-    expect(headers.length).toBe(5);
-    expect(headers[0].textContent?.trim()).toBe('Country');
-    expect(headers[1].textContent?.trim()).toBe('Currency');
-    expect(headers[2].textContent?.trim()).toBe('Amount');
-    expect(headers[3].textContent?.trim()).toBe('Code');
-    expect(headers[4].textContent?.trim()).toBe('Rate');
+    // Verify table headers are present, after the favorites column, with the default sort marked
+    const headers = Array.from(compiled.querySelectorAll('th')).slice(1).map(header => header.textContent?.trim());
+    expect(headers).toEqual(['Country ▲', 'Currency', 'Amount', 'Code', 'Rate (CZK)', 'Per unit (CZK)', 'Change', 'Change %']);
   });
 
   it('should handle loading states throughout the data flow', async () => {
@@ -124,24 +137,25 @@ describe('End-to-End Integration Tests', () => {
     fixture.detectChanges();
 
     // Assert - Verify loading state is shown initially
-    expect(component.loading()).toBe(true);
-    expect(component.error()).toBe(null);
+    expect(component.isLoading()).toBe(true);
+    expect(component.error()).toBe('');
     
     const compiled = fixture.nativeElement as HTMLElement;
-    const loadingElement = compiled.querySelector('.loading');
+    const loadingElement = compiled.querySelector('.loading-container');
     expect(loadingElement).toBeTruthy();
     expect(loadingElement?.textContent?.trim()).toBe('Loading exchange rates...');
 
     // Complete the request
-    const req = httpMock.expectOne(request => request.url.includes('/api/v1/exchange-rates'));
+    const req = httpMock.expectOne(ratesUrl);
     req.flush(mockExchangeRateResponse);
+    flushPreviousFixing();
     
     await fixture.whenStable();
     fixture.detectChanges();
 
     // Assert - Verify loading state is cleared
-    expect(component.loading()).toBe(false);
-    const loadingElementAfter = compiled.querySelector('.loading');
+    expect(component.isLoading()).toBe(false);
+    const loadingElementAfter = compiled.querySelector('.loading-container');
     expect(loadingElementAfter).toBeFalsy();
   });
 
@@ -151,28 +165,29 @@ describe('End-to-End Integration Tests', () => {
     // Act - Initialize component
     fixture.detectChanges();
 
-    // Simulate network error
-    const req = httpMock.expectOne(request => request.url.includes('/api/v1/exchange-rates'));
+    // Simulate the CNB being unavailable
+    const req = httpMock.expectOne(ratesUrl);
     req.flush('Network Error', { status: 503, statusText: 'Service Unavailable' });
     
     await fixture.whenStable();
     fixture.detectChanges();
 
     // Assert - Verify error state is handled
-    expect(component.loading()).toBe(false);
+    expect(component.isLoading()).toBe(false);
     expect(component.error()).toBeTruthy();
     expect(component.exchangeRates()).toEqual([]);
 
     // Verify error is displayed in DOM
     const compiled = fixture.nativeElement as HTMLElement;
-    const errorElement = compiled.querySelector('.error');
+    const errorElement = compiled.querySelector('.error-container');
     expect(errorElement).toBeTruthy();
-    expect(errorElement?.textContent).toContain('Failed to load exchange rates');
+    expect(errorElement?.textContent).toContain('Unable to load exchange rates');
+    expect(errorElement?.textContent).toContain('temporarily unavailable');
     
     // Verify retry button is present
     const retryButton = compiled.querySelector('.retry-button') as HTMLButtonElement;
     expect(retryButton).toBeTruthy();
-    expect(retryButton.textContent?.trim()).toBe('Retry');
+    expect(retryButton.textContent).toContain('Try Again');
   });
 
   it('should handle retry functionality in error scenarios', async () => {
@@ -181,7 +196,7 @@ describe('End-to-End Integration Tests', () => {
     // Act - Initialize component and simulate error
     fixture.detectChanges();
     
-    const req1 = httpMock.expectOne(request => request.url.includes('/api/v1/exchange-rates'));
+    const req1 = httpMock.expectOne(ratesUrl);
     req1.flush('Network Error', { status: 503, statusText: 'Service Unavailable' });
     
     await fixture.whenStable();
@@ -198,20 +213,21 @@ describe('End-to-End Integration Tests', () => {
     fixture.detectChanges();
 
     // Verify loading state is shown again
-    expect(component.loading()).toBe(true);
-    expect(component.error()).toBe(null);
+    expect(component.isLoading()).toBe(true);
+    expect(component.error()).toBe('');
 
     // Complete the retry request successfully
-    const req2 = httpMock.expectOne(request => request.url.includes('/api/v1/exchange-rates'));
+    const req2 = httpMock.expectOne(ratesUrl);
     req2.flush(mockExchangeRateResponse);
+    flushPreviousFixing();
     
     await fixture.whenStable();
     fixture.detectChanges();
 
     // Assert - Verify successful recovery
-    expect(component.loading()).toBe(false);
-    expect(component.error()).toBe(null);
-    expect(component.exchangeRates()).toEqual(mockExchangeRateResponse.rates);
+    expect(component.isLoading()).toBe(false);
+    expect(component.error()).toBe('');
+    expect(component.exchangeRates()).toEqual(ratesByCountry);
   });
 
   it('should validate configuration management integration', async () => {
@@ -221,15 +237,13 @@ describe('End-to-End Integration Tests', () => {
     fixture.detectChanges();
     
     const req = httpMock.expectOne(request => {
-      // Verify the request URL includes the expected API path
-      expect(request.url).toMatch(/\/api\/v1\/exchange-rates$/);
+      // Verify the request URL includes the configured API version
+      expect(request.url).toMatch(/\/api\/v1\.0\/exchange-rates$/);
       return true;
     });
     
-    // Verify request headers
-    expect(req.request.headers.get('Accept')).toBe('application/json');
-    
     req.flush(mockExchangeRateResponse);
+    flushPreviousFixing();
     await fixture.whenStable();
   });
 
@@ -239,8 +253,9 @@ describe('End-to-End Integration Tests', () => {
     // Act - Load data
     fixture.detectChanges();
     
-    const req = httpMock.expectOne(request => request.url.includes('/api/v1/exchange-rates'));
+    const req = httpMock.expectOne(ratesUrl);
     req.flush(mockExchangeRateResponse);
+    flushPreviousFixing();
     
     await fixture.whenStable();
     fixture.detectChanges();
@@ -252,7 +267,7 @@ describe('End-to-End Integration Tests', () => {
     
     // Verify all required columns are present for mobile compatibility
     const headers = compiled.querySelectorAll('th');
-    expect(headers.length).toBe(5);
+    expect(headers.length).toBe(9);
     
     const rows = compiled.querySelectorAll('tbody tr');
     expect(rows.length).toBe(3);
@@ -260,7 +275,7 @@ describe('End-to-End Integration Tests', () => {
     // Verify each row has all required cells
     rows.forEach(row => {
       const cells = row.querySelectorAll('td');
-      expect(cells.length).toBe(5);
+      expect(cells.length).toBe(9);
     });
   });
 });
\ No newline at end of file
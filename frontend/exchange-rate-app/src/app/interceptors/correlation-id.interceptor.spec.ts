@@ -0,0 +1,34 @@
+import { HttpErrorResponse, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { of, throwError } from 'rxjs';
+import { correlationIdInterceptor } from './correlation-id.interceptor';
+
+describe('correlationIdInterceptor', () => {
+  it('should add a correlation id header to outgoing requests', () => {
+    const next = vi.fn().mockReturnValue(of(new HttpResponse({ status: 200 })));
+
+    correlationIdInterceptor(new HttpRequest('GET', '/api'), next).subscribe();
+
+    const sent: HttpRequest<unknown> = next.mock.calls[0][0];
+    expect(sent.headers.get('X-Correlation-Id')).toMatch(/^[0-9a-f-]{20,}$/);
+  });
+
+  it('should keep an id that is already set', () => {
+    const next = vi.fn().mockReturnValue(of(new HttpResponse({ status: 200 })));
+    const request = new HttpRequest('GET', '/api', { headers: new HttpHeaders({ 'X-Correlation-Id': 'abc-123' }) });
+
+    correlationIdInterceptor(request, next).subscribe();
+
+    expect(next.mock.calls[0][0].headers.get('X-Correlation-Id')).toBe('abc-123');
+  });
+
+  it('should not attach its own id to errors the backend did not answer', () => {
+    const next = vi.fn().mockReturnValue(throwError(() => new HttpErrorResponse({ status: 0, url: '/api' })));
+    const request = new HttpRequest('GET', '/api', { headers: new HttpHeaders({ 'X-Correlation-Id': 'abc-123' }) });
+    let received: HttpErrorResponse | undefined;
+
+    correlationIdInterceptor(request, next).subscribe({ error: error => received = error });
+
+    expect(received?.status).toBe(0);
+    expect(received?.headers.has('X-Correlation-Id')).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { CORRELATION_ID_HEADER } from '../models/exchange-rate-error';
+
+/**
+ * Tags every request with a correlation id so a failure seen in the UI can be found in the backend logs.
+ * Retries of the same request keep its id. The backend logs it and echoes it on the response, where
+ * ExchangeRateError picks it up; a failure that never reached the backend has no reference to show.
+ */
+export const correlationIdInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.headers.has(CORRELATION_ID_HEADER)) {
+    return next(req);
+  }
+  return next(req.clone({ setHeaders: { [CORRELATION_ID_HEADER]: createCorrelationId() } }));
+};
+
+export function createCorrelationId(): string {
+  // randomUUID is only available in secure contexts
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Array.from({ length: 4 }, () => Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0')).join('-');
+}
@@ -0,0 +1,96 @@
+import { HttpContext, HttpErrorResponse, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { defer, Observable, of, throwError } from 'rxjs';
+import { computeRetryDelay, createRetryInterceptor, DEFAULT_RETRY_CONFIG, DISABLE_RETRY, parseRetryAfter } from './retry.interceptor';
+
+describe('retryInterceptor', () => {
+  const config = DEFAULT_RETRY_CONFIG;
+  const serviceUnavailable = new HttpErrorResponse({ status: 503 });
+
+  describe('computeRetryDelay', () => {
+    it('should back off exponentially with jitter', () => {
+      expect(computeRetryDelay(1, config, serviceUnavailable, () => 0)).toBe(250);
+      expect(computeRetryDelay(1, config, serviceUnavailable, () => 1)).toBe(500);
+      expect(computeRetryDelay(3, config, serviceUnavailable, () => 1)).toBe(2000);
+      expect(computeRetryDelay(10, config, serviceUnavailable, () => 1)).toBe(config.maxDelay);
+    });
+
+    it('should not retry statuses outside the retryable list', () => {
+      expect(computeRetryDelay(1, config, new HttpErrorResponse({ status: 404 }))).toBeNull();
+      expect(computeRetryDelay(1, config, new HttpErrorResponse({ status: 400 }))).toBeNull();
+      expect(computeRetryDelay(1, config, new Error('boom'))).toBeNull();
+    });
+
+    it('should honor Retry-After and give up when it exceeds the longest delay', () => {
+      const retryAfter = (value: string) => new HttpErrorResponse({ status: 429, headers: new HttpHeaders({ 'Retry-After': value }) });
+
+      expect(computeRetryDelay(1, config, retryAfter('2'))).toBe(2000);
+      expect(computeRetryDelay(1, config, retryAfter('120'))).toBeNull();
+    });
+  });
+
+  it('should parse Retry-After given in seconds or as an HTTP date', () => {
+    const now = Date.parse('2025-12-05T14:30:00Z');
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Fri, 05 Dec 2025 14:30:03 GMT', now)).toBe(3000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  describe('createRetryInterceptor', () => {
+    // Like the real handler, every subscription sends the request again
+    function failingTimes(failures: number, error: HttpErrorResponse) {
+      const attempt = vi.fn();
+      const next = () => defer(() => {
+        attempt();
+        return attempt.mock.calls.length <= failures
+          ? throwError(() => error)
+          : of(new HttpResponse({ status: 200, body: 'ok' })) as Observable<any>;
+      });
+      return { next, attempt };
+    }
+
+    beforeEach(() => vi.useFakeTimers());
+    afterEach(() => vi.useRealTimers());
+
+    it('should retry transient failures until the request succeeds', async () => {
+      const { next, attempt } = failingTimes(2, serviceUnavailable);
+      const interceptor = createRetryInterceptor(config, () => 0);
+      let body: unknown;
+
+      interceptor(new HttpRequest('GET', '/api'), next).subscribe(event => body = (event as HttpResponse<string>).body);
+      await vi.advanceTimersByTimeAsync(250 + 500);
+
+      expect(attempt).toHaveBeenCalledTimes(3);
+      expect(body).toBe('ok');
+    });
+
+    it('should fail immediately on a non-retryable status', () => {
+      const { next, attempt } = failingTimes(1, new HttpErrorResponse({ status: 404 }));
+      let status = 0;
+
+      createRetryInterceptor(config)(new HttpRequest('GET', '/api'), next).subscribe({
+        error: (error: HttpErrorResponse) => status = error.status
+      });
+
+      expect(attempt).toHaveBeenCalledTimes(1);
+      expect(status).toBe(404);
+    });
+
+    it('should leave non-idempotent and opted-out requests alone', () => {
+      const interceptor = createRetryInterceptor(config);
+      const post = failingTimes(1, serviceUnavailable);
+      const polled = failingTimes(1, serviceUnavailable);
+
+      interceptor(new HttpRequest('POST', '/api', null), post.next).subscribe({ error: () => undefined });
+      interceptor(
+        new HttpRequest('GET', '/api', { context: new HttpContext().set(DISABLE_RETRY, true) }),
+        polled.next
+      ).subscribe({ error: () => undefined });
+      vi.advanceTimersByTime(config.maxDelay * config.maxRetries);
+
+      expect(post.attempt).toHaveBeenCalledTimes(1);
+      expect(polled.attempt).toHaveBeenCalledTimes(1);
+    });
+  });
+});
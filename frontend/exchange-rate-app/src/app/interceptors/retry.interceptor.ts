@@ -0,0 +1,98 @@
+import { InjectionToken, inject } from '@angular/core';
+import { HttpContextToken, HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { throwError, timer } from 'rxjs';
+import { retry } from 'rxjs/operators';
+
+export interface RetryConfig {
+  /** Retries after the first attempt, 0 disables retrying */
+  maxRetries: number;
+  /** Delay before the first retry in milliseconds, doubled for every further retry */
+  baseDelay: number;
+  /** Longest delay between attempts; a longer Retry-After gives up instead */
+  maxDelay: number;
+  /** Statuses worth asking again for, 0 meaning no response was received */
+  retryableStatuses: number[];
+  /** Only idempotent requests are repeated */
+  retryableMethods: string[];
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  retryableStatuses: [0, 408, 429, 500, 502, 503, 504],
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS']
+};
+
+export const HTTP_RETRY_CONFIG = new InjectionToken<RetryConfig>('HTTP_RETRY_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_RETRY_CONFIG
+});
+
+/**
+ * Set on requests that handle failures themselves, e.g. periodic polling
+ */
+export const DISABLE_RETRY = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Retries failed idempotent requests with exponential backoff and jitter, configured through HTTP_RETRY_CONFIG
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) =>
+  createRetryInterceptor(inject(HTTP_RETRY_CONFIG))(req, next);
+
+export function createRetryInterceptor(config: RetryConfig, random: () => number = Math.random): HttpInterceptorFn {
+  return (req, next) => {
+    if (config.maxRetries <= 0 || req.context.get(DISABLE_RETRY) || !config.retryableMethods.includes(req.method)) {
+      return next(req);
+    }
+    return next(req).pipe(
+      retry({
+        count: config.maxRetries,
+        delay: (error: unknown, retryCount: number) => {
+          const delay = computeRetryDelay(retryCount, config, error, random);
+          return delay === null ? throwError(() => error) : timer(delay);
+        }
+      })
+    );
+  };
+}
+
+/**
+ * Delay before the given retry (1-based) in milliseconds, or null when the error should not be retried.
+ * A Retry-After header takes precedence over the backoff.
+ */
+export function computeRetryDelay(
+  retryCount: number,
+  config: RetryConfig,
+  error: unknown,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): number | null {
+  if (!(error instanceof HttpErrorResponse) || !config.retryableStatuses.includes(error.status)) {
+    return null;
+  }
+
+  const retryAfter = parseRetryAfter(error.headers.get('Retry-After'), now);
+  if (retryAfter !== null) {
+    return retryAfter <= config.maxDelay ? retryAfter : null;
+  }
+
+  // Equal jitter: half of the backoff is fixed, the other half random, so clients do not retry in lockstep
+  const backoff = Math.min(config.maxDelay, config.baseDelay * 2 ** (retryCount - 1));
+  return Math.round(backoff / 2 + random() * backoff / 2);
+}
+
+/**
+ * Retry-After as a delay in milliseconds, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
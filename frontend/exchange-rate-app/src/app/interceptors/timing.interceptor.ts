@@ -0,0 +1,36 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { tap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+
+// Requests slower than this are reported as warnings
+const SLOW_REQUEST_THRESHOLD = 3000;
+
+/**
+ * Measures how long each request takes, including retries further down the chain
+ */
+export const timingInterceptor: HttpInterceptorFn = (req, next) => {
+  const startedAt = performance.now();
+  const report = (status: number) => {
+    if (environment.production) {
+      return;
+    }
+    const duration = Math.round(performance.now() - startedAt);
+    const summary = `${req.method} ${req.urlWithParams} → ${status} in ${duration} ms`;
+    if (duration >= SLOW_REQUEST_THRESHOLD) {
+      console.warn(`Slow request: ${summary}`);
+    } else {
+      console.log(summary);
+    }
+  };
+
+  return next(req).pipe(
+    tap({
+      next: event => {
+        if (event instanceof HttpResponse) {
+          report(event.status);
+        }
+      },
+      error: (error: unknown) => report(error instanceof HttpErrorResponse ? error.status : 0)
+    })
+  );
+};
@@ -0,0 +1,45 @@
+/**
+ * Body of /config.json, read at startup so one build can be promoted between environments.
+ * Omitted settings fall back to the build-time environment.
+ */
+export interface AppConfig {
+  /** Without a trailing slash, e.g. "/api" or "https://api.example.com/api" */
+  apiBaseUrl: string;
+  /** Path segment of the API version, e.g. "v1.0" */
+  apiVersion: string;
+  /** How malformed exchange rate responses are handled */
+  responseValidation: ResponseValidationMode;
+  cache: CachePolicy;
+  autoRefresh: AutoRefreshPolicy;
+  features: FeatureToggles;
+}
+
+/**
+ * strict rejects a response with any malformed rate, lenient drops the malformed rates and keeps the rest
+ */
+export type ResponseValidationMode = 'strict' | 'lenient';
+
+export interface CachePolicy {
+  /** Keep fetched rates across reloads and tabs */
+  persist: boolean;
+  /** How often to ask again while a due fixing has not been published yet */
+  recheckIntervalMinutes: number;
+}
+
+/**
+ * Checking for a newly published fixing while the latest rates are shown
+ */
+export interface AutoRefreshPolicy {
+  /** Poll for new rates while the tab is visible */
+  enabled: boolean;
+  intervalMinutes: number;
+  /** Show new rates right away instead of offering them in a notice */
+  autoApply: boolean;
+}
+
+export interface FeatureToggles {
+  favorites: boolean;
+  export: boolean;
+  /** Poll the backend health endpoint and show the degraded-service banner */
+  healthMonitoring: boolean;
+}
@@ -0,0 +1,64 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { describeError, ExchangeRateError, toExchangeRateError } from './exchange-rate-error';
+
+describe('ExchangeRateError', () => {
+  const problem = {
+    type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+    title: 'Data Not Found',
+    status: 404,
+    detail: 'The requested exchange rate data was not found.',
+    instance: '/api/v1.0/exchange-rates/2025-12-06',
+    traceId: '0HN8:00000001'
+  };
+
+  it('should parse the ProblemDetails body of a missing fixing', () => {
+    const error = toExchangeRateError(new HttpErrorResponse({ status: 404, error: problem }));
+
+    expect(error).toBeInstanceOf(ExchangeRateError);
+    expect(error.kind).toBe('not-found');
+    expect(error.retryable).toBe(false);
+    expect(error.status).toBe(404);
+    expect(error.problem).toEqual(problem);
+    expect(error.correlationId).toBe('0HN8:00000001');
+    expect(error.message).toContain('404');
+  });
+
+  it('should prefer the correlation id response header over the trace id', () => {
+    const headers = new HttpHeaders({ 'X-Correlation-Id': 'abc-123' });
+    const error = toExchangeRateError(new HttpErrorResponse({ status: 503, error: JSON.stringify(problem), headers }));
+
+    expect(error.kind).toBe('service-unavailable');
+    expect(error.retryable).toBe(true);
+    expect(error.correlationId).toBe('abc-123');
+    expect(error.problem?.title).toBe('Data Not Found');
+  });
+
+  it('should classify timeouts, invalid bodies and other statuses', () => {
+    expect(toExchangeRateError(new HttpErrorResponse({ status: 504 })).kind).toBe('timeout');
+    expect(toExchangeRateError(new HttpErrorResponse({ status: 200, error: 'not json' })).kind).toBe('parse');
+
+    const badRequest = toExchangeRateError(new HttpErrorResponse({ status: 400, error: 'oops' }));
+    expect(badRequest.kind).toBe('unknown');
+    expect(badRequest.retryable).toBe(false);
+    expect(badRequest.problem).toBeNull();
+  });
+
+  it('should tell offline from an unreachable server', () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get');
+
+    onLine.mockReturnValue(false);
+    expect(toExchangeRateError(new HttpErrorResponse({ status: 0 })).kind).toBe('offline');
+
+    onLine.mockReturnValue(true);
+    expect(toExchangeRateError(new HttpErrorResponse({ status: 0 })).kind).toBe('network');
+
+    onLine.mockRestore();
+  });
+
+  it('should describe errors for the user by kind', () => {
+    expect(describeError(new ExchangeRateError('not-found', 'Server returned code 404'))).toContain('No exchange rates');
+    expect(describeError(new ExchangeRateError('invalid-date', 'Invalid date "2025-02-30"'))).toContain('not a valid date');
+    expect(describeError(new ExchangeRateError('unknown', 'Server returned code 418: teapot'))).toBe('Server returned code 418: teapot');
+    expect(describeError(new Error('Invalid date'))).toBe('Invalid date');
+  });
+});
@@ -0,0 +1,160 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { ProblemDetails } from './problem-details.interface';
+import { Translate, translateEnglish } from '../i18n/i18n';
+
+export type ExchangeRateErrorKind =
+  | 'network'
+  | 'offline'
+  | 'service-unavailable'
+  | 'not-found'
+  | 'invalid-date'
+  | 'timeout'
+  | 'parse'
+  | 'unknown';
+
+export interface ExchangeRateErrorDetails {
+  status?: number | null;
+  retryable?: boolean;
+  correlationId?: string | null;
+  problem?: ProblemDetails | null;
+  cause?: unknown;
+}
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+/**
+ * Failure of an exchange rate request, classified so the UI can react to the kind of problem
+ * instead of parsing the message.
+ */
+export class ExchangeRateError extends Error {
+  override readonly name = 'ExchangeRateError';
+  /** HTTP status, null when no response was received */
+  readonly status: number | null;
+  /** Whether asking again later may succeed */
+  readonly retryable: boolean;
+  /** Identifies the request in the backend logs */
+  readonly correlationId: string | null;
+  readonly problem: ProblemDetails | null;
+
+  constructor(readonly kind: ExchangeRateErrorKind, message: string, details: ExchangeRateErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.status = details.status ?? null;
+    this.retryable = details.retryable ?? isRetryableKind(kind);
+    this.correlationId = details.correlationId ?? null;
+    this.problem = details.problem ?? null;
+  }
+}
+
+/**
+ * Classify a failed HTTP request.
+ * Messages stay short and free of technical details, the backend's ProblemDetails is kept for diagnostics.
+ */
+export function toExchangeRateError(error: HttpErrorResponse): ExchangeRateError {
+  const problem = parseProblemDetails(error.error);
+  const details: ExchangeRateErrorDetails = {
+    status: error.status ?? null,
+    correlationId: error.headers?.get?.(CORRELATION_ID_HEADER) ?? problem?.traceId ?? null,
+    problem,
+    cause: error
+  };
+
+  if (error.error instanceof ErrorEvent) {
+    return new ExchangeRateError('network', `Network error: ${error.error.message}`, details);
+  }
+
+  switch (error.status) {
+    case 0:
+      return new ExchangeRateError(
+        isOffline() ? 'offline' : 'network',
+        'Unable to connect to the server. Please check your internet connection.',
+        details
+      );
+    case 503:
+      return new ExchangeRateError(
+        'service-unavailable',
+        'Exchange rate service is temporarily unavailable. Please try again later.',
+        details
+      );
+    case 500:
+      return new ExchangeRateError('unknown', 'Internal server error. Please try again later.', {
+        ...details,
+        retryable: true
+      });
+    case 404:
+      return new ExchangeRateError('not-found', `Server returned code 404: ${error.message}`, details);
+    case 408:
+    case 504:
+      return new ExchangeRateError('timeout', `Server returned code ${error.status}: ${error.message}`, details);
+  }
+
+  // Angular reports a body that is not valid JSON as a failed request with a successful status
+  if (error.status >= 200 && error.status < 300) {
+    return new ExchangeRateError('parse', 'The exchange rate data could not be read. Please try again later.', details);
+  }
+
+  return new ExchangeRateError('unknown', `Server returned code ${error.status}: ${error.message}`, {
+    ...details,
+    retryable: error.status >= 500
+  });
+}
+
+/**
+ * Message for the user, tailored to the kind of failure
+ */
+export function describeError(error: unknown, translate: Translate = translateEnglish): string {
+  if (!(error instanceof ExchangeRateError)) {
+    return error instanceof Error ? error.message : translate('error.unknown');
+  }
+  switch (error.kind) {
+    case 'offline':
+      return translate('error.offline');
+    case 'network':
+      return translate('error.network');
+    case 'service-unavailable':
+      return translate('error.serviceUnavailable');
+    case 'not-found':
+      return translate('error.notFound');
+    case 'invalid-date':
+      return translate('error.invalidDate');
+    case 'timeout':
+      return translate('error.timeout');
+    case 'parse':
+      return translate('error.parse');
+    default:
+      return error.status ? translate('error.server', { status: error.status }) : error.message;
+  }
+}
+
+function isRetryableKind(kind: ExchangeRateErrorKind): boolean {
+  return kind === 'network' || kind === 'service-unavailable' || kind === 'timeout';
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function parseProblemDetails(body: unknown): ProblemDetails | null {
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return null;
+    }
+  }
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+  const candidate = body as Record<string, unknown>;
+  if (typeof candidate['title'] !== 'string' && typeof candidate['detail'] !== 'string') {
+    return null;
+  }
+  const text = (key: string) => typeof candidate[key] === 'string' ? candidate[key] as string : undefined;
+  return {
+    type: text('type'),
+    title: text('title'),
+    status: typeof candidate['status'] === 'number' ? candidate['status'] : undefined,
+    detail: text('detail'),
+    instance: text('instance'),
+    traceId: text('traceId')
+  };
+}
@@ -10,4 +10,16 @@ export interface ExchangeRateResponse {
   date: string;
   sequenceNumber: number;
   rates: ExchangeRate[];
-}
\ No newline at end of file
+}
+
+/**
+ * The rate of a currency that applies on a date, taken from the most recent fixing published by then
+ */
+export interface EffectiveRate {
+  /** Date the rate was asked for (YYYY-MM-DD) */
+  date: string;
+  /** Date of the fixing the rate comes from (YYYY-MM-DD); earlier than date for weekends and holidays */
+  fixingDate: string;
+  sequenceNumber: number;
+  rate: ExchangeRate;
+}
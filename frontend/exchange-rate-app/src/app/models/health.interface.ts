@@ -0,0 +1,33 @@
+export type HealthState = 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
+
+/**
+ * Body of GET api/v1.0/health
+ */
+export interface HealthResponse {
+  status: string;
+  timestamp: string;
+  version: string;
+  /** TimeSpan, e.g. "1.02:03:04.5" */
+  uptime: string;
+}
+
+/**
+ * Body of GET api/v1.0/health/detailed
+ */
+export interface DetailedHealthResponse extends HealthResponse {
+  environment: string;
+  machineName: string;
+  processorCount: number;
+  /** Working set in MB */
+  workingSet: number;
+}
+
+export interface HealthStatus {
+  /** As reported by the health endpoint, unhealthy when it cannot be reached */
+  backend: HealthState;
+  /** Inferred from exchange rate requests and, once down, from the health polls; the backend does not report the CNB separately */
+  cnb: HealthState;
+  version: string | null;
+  /** When the backend was last checked, in milliseconds since epoch */
+  checkedAt: number | null;
+}
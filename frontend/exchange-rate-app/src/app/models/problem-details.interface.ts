@@ -0,0 +1,11 @@
+/**
+ * RFC 7807 error body written by the backend's GlobalExceptionHandlingMiddleware
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  traceId?: string;
+}
@@ -0,0 +1,12 @@
+import { ExchangeRateResponse } from './exchange-rate.interface';
+
+export type RatesSource = 'network' | 'storage';
+
+export interface RatesSnapshot {
+  data: ExchangeRateResponse;
+  /** When the data was received from the API, in milliseconds since epoch */
+  fetchedAt: number;
+  source: RatesSource;
+  /** True when revalidation failed and the data is the last known copy */
+  stale: boolean;
+}
@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { DateStyle } from '../i18n/i18n';
+import { TranslationService } from '../services/translation.service';
+
+/**
+ * Dates in the format of the current language, e.g. 5. 12. 2025 in Czech
+ */
+@Pipe({
+  name: 'localeDate',
+  standalone: true,
+  pure: false
+})
+export class LocaleDatePipe implements PipeTransform {
+  constructor(private translation: TranslationService) {}
+
+  transform(value: string | number | Date | null | undefined, style: DateStyle = 'date'): string {
+    return value === null || value === undefined || value === '' ? '' : this.translation.formatDate(value, style);
+  }
+}
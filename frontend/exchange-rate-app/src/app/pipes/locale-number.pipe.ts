@@ -0,0 +1,18 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { TranslationService } from '../services/translation.service';
+
+/**
+ * Like the number pipe, with the decimal separator of the current language
+ */
+@Pipe({
+  name: 'localeNumber',
+  standalone: true,
+  pure: false
+})
+export class LocaleNumberPipe implements PipeTransform {
+  constructor(private translation: TranslationService) {}
+
+  transform(value: number | null | undefined, digitsInfo?: string): string {
+    return value === null || value === undefined ? '' : this.translation.formatNumber(value, digitsInfo);
+  }
+}
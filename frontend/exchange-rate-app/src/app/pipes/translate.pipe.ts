@@ -0,0 +1,20 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { MessageKey, TranslateParams } from '../i18n/i18n';
+import { TranslationService } from '../services/translation.service';
+
+/**
+ * Text for a message key in the current language, e.g. {{ 'rates.showing' | translate: { shown, total } }}.
+ * Impure so a language switch updates the page without reloading.
+ */
+@Pipe({
+  name: 'translate',
+  standalone: true,
+  pure: false
+})
+export class TranslatePipe implements PipeTransform {
+  constructor(private translation: TranslationService) {}
+
+  transform(key: MessageKey, params?: TranslateParams): string {
+    return this.translation.translate(key, params);
+  }
+}
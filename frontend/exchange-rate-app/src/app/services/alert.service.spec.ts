@@ -0,0 +1,100 @@
+import { Subject, of } from 'rxjs';
+import { AlertService } from './alert.service';
+import { TranslationService } from './translation.service';
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+
+describe('AlertService', () => {
+  let responses: Subject<ExchangeRateResponse>;
+  let mockExchangeRateService: {
+    responses$: Subject<ExchangeRateResponse>;
+    getFreshness: ReturnType<typeof vi.fn>;
+    getPreviousFixing: ReturnType<typeof vi.fn>;
+  };
+  let service: AlertService;
+
+  const createResponse = (date: string, sequenceNumber: number, eurRate: number): ExchangeRateResponse => ({
+    date,
+    sequenceNumber,
+    rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: eurRate }]
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    responses = new Subject<ExchangeRateResponse>();
+    mockExchangeRateService = {
+      responses$: responses,
+      getFreshness: vi.fn().mockReturnValue('current'),
+      getPreviousFixing: vi.fn().mockReturnValue(of(createResponse('2025-12-04', 235, 25)))
+    };
+    service = new AlertService(mockExchangeRateService as any, new TranslationService());
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it('should list matches in the app while notifications are not permitted', () => {
+    service.addRule('above', ' eur ', 25.5);
+
+    responses.next(createResponse('2025-12-05', 236, 25.6));
+
+    expect(service.alerts().length).toBe(1);
+    expect(service.alerts()[0].rule.code).toBe('EUR');
+    expect(service.describeMatch(service.alerts()[0])).toBe('EUR is 25.600 CZK, above 25.5 (5 Dec 2025 #236)');
+  });
+
+  it('should evaluate each fixing once and skip stale ones', () => {
+    service.addRule('above', 'EUR', 25.5);
+
+    responses.next(createResponse('2025-12-05', 236, 25.6));
+    responses.next(createResponse('2025-12-05', 236, 25.6));
+    mockExchangeRateService.getFreshness.mockReturnValue('stale');
+    responses.next(createResponse('2025-12-08', 237, 25.7));
+
+    expect(service.alerts().length).toBe(1);
+  });
+
+  it('should fire new fixing rules only after the first fixing seen and compare change rules with the previous fixing', () => {
+    service.addRule('newFixing', '', 0);
+    service.addRule('change', 'EUR', 1);
+
+    responses.next(createResponse('2025-12-05', 236, 25.1));
+    expect(service.alerts()).toEqual([]);
+
+    responses.next(createResponse('2025-12-08', 237, 25.5));
+    expect(service.alerts().map(alert => alert.rule.kind)).toEqual(['change', 'newFixing']);
+    expect(mockExchangeRateService.getPreviousFixing).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep rules and the last fixing seen across page reloads', () => {
+    service.addRule('below', 'EUR', 30);
+    responses.next(createResponse('2025-12-05', 236, 25.6));
+    service.stop();
+
+    const reloaded = new AlertService(mockExchangeRateService as any, new TranslationService());
+    reloaded.start();
+    responses.next(createResponse('2025-12-05', 236, 25.6));
+    expect(reloaded.rules().map(rule => rule.code)).toEqual(['EUR']);
+    expect(reloaded.alerts()).toEqual([]);
+
+    reloaded.removeRule(reloaded.rules()[0].id);
+    reloaded.stop();
+    expect(new AlertService(mockExchangeRateService as any, new TranslationService()).rules()).toEqual([]);
+  });
+
+  it('should show a browser notification when permitted', () => {
+    const notification = vi.fn();
+    vi.stubGlobal('Notification', Object.assign(notification, { permission: 'granted' }));
+    try {
+      service.addRule('above', 'EUR', 25.5);
+
+      responses.next(createResponse('2025-12-05', 236, 25.6));
+
+      expect(notification).toHaveBeenCalledWith('CNB rate alert', expect.objectContaining({ body: expect.stringContaining('EUR') }));
+      expect(service.alerts()).toEqual([]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,237 @@
+import { Injectable, signal } from '@angular/core';
+import { EMPTY, Observable, Subscription, of } from 'rxjs';
+import { catchError, concatMap, filter, map } from 'rxjs/operators';
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { ExchangeRateService } from './exchange-rate.service';
+import { TranslationService } from './translation.service';
+import { AlertContext, AlertMatch, AlertRule, AlertRuleKind, evaluateAlertRules, isNewerFixing, parseAlertRules } from '../utils/alert-rules';
+import { normalizeIsoDate } from '../utils/date-utils';
+import { environment } from '../../environments/environment';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+/** A match shown in the app because browser notifications are not permitted */
+export interface TriggeredAlert extends AlertMatch {
+  id: string;
+  triggeredAt: number;
+}
+
+interface SeenFixing {
+  date: string;
+  sequenceNumber: number;
+}
+
+/**
+ * Alert rules on exchange rates, persisted in localStorage.
+ * Every newly published fixing the ExchangeRateService receives is checked against the rules; matches
+ * raise a browser notification when permitted and are listed in the app otherwise.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertService {
+  private readonly RULES_KEY = 'exchange-rate-alert-rules';
+  private readonly LAST_FIXING_KEY = 'exchange-rate-alert-last-fixing';
+  private readonly ruleList = signal<AlertRule[]>(this.loadRules());
+  private readonly alertList = signal<TriggeredAlert[]>([]);
+  private readonly permissionState = signal<NotificationPermissionState>(currentPermission());
+  private lastFixing: SeenFixing | null = this.loadLastFixing();
+  private responsesSubscription: Subscription | null = null;
+
+  readonly rules = this.ruleList.asReadonly();
+  readonly alerts = this.alertList.asReadonly();
+  readonly permission = this.permissionState.asReadonly();
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private translation: TranslationService
+  ) {}
+
+  /**
+   * Check every new fixing until stopped; calling it again keeps a single subscription.
+   * Fixings loaded for past dates (e.g. by the chart) are not new and are skipped.
+   */
+  start(): void {
+    if (this.responsesSubscription) {
+      return;
+    }
+    this.responsesSubscription = this.exchangeRateService.responses$.pipe(
+      filter(fixing => this.exchangeRateService.getFreshness(fixing.date) !== 'stale'),
+      concatMap(fixing => {
+        const isNewFixing = this.markSeen(fixing);
+        return isNewFixing === null ? EMPTY : this.withPreviousFixing(fixing, isNewFixing);
+      })
+    ).subscribe(context => this.evaluate(context));
+  }
+
+  stop(): void {
+    this.responsesSubscription?.unsubscribe();
+    this.responsesSubscription = null;
+  }
+
+  addRule(kind: AlertRuleKind, code: string, value: number): void {
+    const rule: AlertRule = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      kind,
+      code: kind === 'newFixing' ? '' : code.trim().toUpperCase(),
+      value: kind === 'newFixing' ? 0 : value
+    };
+    this.ruleList.set([...this.ruleList(), rule]);
+    this.saveRules();
+  }
+
+  removeRule(id: string): void {
+    this.ruleList.set(this.ruleList().filter(rule => rule.id !== id));
+    this.saveRules();
+  }
+
+  dismissAlert(id: string): void {
+    this.alertList.set(this.alertList().filter(alert => alert.id !== id));
+  }
+
+  clearAlerts(): void {
+    this.alertList.set([]);
+  }
+
+  async requestPermission(): Promise<void> {
+    if (typeof Notification === 'undefined') {
+      return;
+    }
+    this.permissionState.set(await Notification.requestPermission());
+  }
+
+  /**
+   * Text of a match in the current language, e.g. "EUR is 25.612 CZK, above 25.5"
+   */
+  describeMatch(match: AlertMatch): string {
+    const { rule, actual } = match;
+    const params = {
+      code: rule.code,
+      value: this.translation.formatNumber(rule.value, '1.0-3'),
+      actual: actual === null ? '' : this.translation.formatNumber(actual, rule.kind === 'change' ? '1.2-2' : '1.3-3'),
+      date: this.translation.formatDate(match.date),
+      number: match.sequenceNumber
+    };
+    switch (rule.kind) {
+      case 'above':
+        return this.translation.translate('alerts.match.above', params);
+      case 'below':
+        return this.translation.translate('alerts.match.below', params);
+      case 'change':
+        return this.translation.translate('alerts.match.change', params);
+      case 'newFixing':
+        return this.translation.translate('alerts.match.newFixing', params);
+    }
+  }
+
+  /**
+   * Remember the newest fixing seen and tell whether it is new; null for fixings that are not newer,
+   * which were checked already. The very first fixing only sets the starting point for newFixing rules.
+   */
+  private markSeen(fixing: ExchangeRateResponse): boolean | null {
+    const last = this.lastFixing;
+    if (last && !isNewerFixing(fixing, last)) {
+      return null;
+    }
+    this.lastFixing = { date: normalizeIsoDate(fixing.date), sequenceNumber: fixing.sequenceNumber };
+    this.saveLastFixing();
+    return last !== null;
+  }
+
+  private withPreviousFixing(fixing: ExchangeRateResponse, isNewFixing: boolean): Observable<AlertContext> {
+    if (!this.ruleList().some(rule => rule.kind === 'change')) {
+      return of({ fixing, previous: null, isNewFixing });
+    }
+    return this.exchangeRateService.getPreviousFixing(fixing).pipe(
+      // Change rules cannot match without the previous fixing, the others still can
+      catchError(() => of(null)),
+      map(previous => ({ fixing, previous, isNewFixing }))
+    );
+  }
+
+  private evaluate(context: AlertContext): void {
+    const matches = evaluateAlertRules(this.ruleList(), context);
+    for (const match of matches) {
+      if (!this.showNotification(match)) {
+        this.alertList.update(alerts => [
+          { ...match, id: `${match.rule.id}@${match.date}#${match.sequenceNumber}`, triggeredAt: Date.now() },
+          ...alerts.filter(alert => alert.rule.id !== match.rule.id || alert.date !== match.date)
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Raise a browser notification; false when that is not possible and the match has to be shown in the app
+   */
+  private showNotification(match: AlertMatch): boolean {
+    if (currentPermission() !== 'granted') {
+      return false;
+    }
+    try {
+      new Notification(this.translation.translate('alerts.notificationTitle'), {
+        body: this.describeMatch(match),
+        tag: `${match.rule.id}@${match.date}`
+      });
+      return true;
+    } catch (error) {
+      // Some mobile browsers only allow notifications from a service worker
+      this.logFailure('notify', error);
+      return false;
+    }
+  }
+
+  private loadRules(): AlertRule[] {
+    try {
+      const raw = localStorage.getItem(this.RULES_KEY);
+      return parseAlertRules(raw ? JSON.parse(raw) : []);
+    } catch (error) {
+      this.logFailure('read', error);
+      return [];
+    }
+  }
+
+  private saveRules(): void {
+    try {
+      localStorage.setItem(this.RULES_KEY, JSON.stringify(this.ruleList()));
+    } catch (error) {
+      // Storage disabled: rules still work until the page is reloaded
+      this.logFailure('write', error);
+    }
+  }
+
+  private loadLastFixing(): SeenFixing | null {
+    try {
+      const raw = localStorage.getItem(this.LAST_FIXING_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : null;
+      return isSeenFixing(parsed) ? parsed : null;
+    } catch (error) {
+      this.logFailure('read', error);
+      return null;
+    }
+  }
+
+  private saveLastFixing(): void {
+    try {
+      localStorage.setItem(this.LAST_FIXING_KEY, JSON.stringify(this.lastFixing));
+    } catch (error) {
+      this.logFailure('write', error);
+    }
+  }
+
+  private logFailure(operation: string, error: unknown): void {
+    if (!environment.production) {
+      console.warn(`AlertService ${operation} failed:`, error);
+    }
+  }
+}
+
+function currentPermission(): NotificationPermissionState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+function isSeenFixing(value: unknown): value is SeenFixing {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as SeenFixing).date === 'string' &&
+    typeof (value as SeenFixing).sequenceNumber === 'number';
+}
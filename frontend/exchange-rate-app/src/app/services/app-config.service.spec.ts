@@ -0,0 +1,41 @@
+import { HttpErrorResponse, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { AppConfigService } from './app-config.service';
+import { AppConfigError, DEFAULT_APP_CONFIG } from '../utils/app-config';
+
+describe('AppConfigService', () => {
+  function serviceAnswering(response: () => Observable<unknown>) {
+    const backend = { handle: vi.fn((_req: HttpRequest<unknown>) => response()) };
+    return { service: new AppConfigService(backend as any), backend };
+  }
+
+  it('should load and validate config.json', async () => {
+    const { service, backend } = serviceAnswering(() =>
+      of(new HttpResponse({ status: 200, body: { apiBaseUrl: '/staging/api', cache: { persist: false } } }))
+    );
+
+    const config = await service.load();
+
+    expect(backend.handle.mock.calls[0][0].url).toBe('config.json');
+    expect(config.apiBaseUrl).toBe('/staging/api');
+    expect(config.cache.persist).toBe(false);
+    expect(service.config).toBe(config);
+  });
+
+  it('should keep the build-time defaults when config.json is missing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { service } = serviceAnswering(() => throwError(() => new HttpErrorResponse({ status: 404 })));
+
+    expect(await service.load()).toBe(DEFAULT_APP_CONFIG);
+    warn.mockRestore();
+  });
+
+  it('should refuse to start with an invalid configuration', async () => {
+    const { service } = serviceAnswering(() =>
+      of(new HttpResponse({ status: 200, body: { apiBaseUrl: 42 } }))
+    );
+
+    await expect(service.load()).rejects.toBeInstanceOf(AppConfigError);
+    expect(service.config).toBe(DEFAULT_APP_CONFIG);
+  });
+});
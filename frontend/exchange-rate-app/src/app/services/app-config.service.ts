@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+import { HttpBackend, HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { AppConfig } from '../models/app-config.interface';
+import { DEFAULT_APP_CONFIG, parseAppConfig } from '../utils/app-config';
+import { environment } from '../../environments/environment';
+
+/**
+ * Loads the runtime configuration at startup, so the API location and feature toggles
+ * are set per deployment instead of per build.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigService {
+  // Relative to the base href, so the app can be served from a sub-path
+  private readonly CONFIG_URL = 'config.json';
+  private loaded: AppConfig = DEFAULT_APP_CONFIG;
+  private readonly http: HttpClient;
+
+  constructor(backend: HttpBackend) {
+    // Bypasses the interceptors, which may themselves depend on the configuration
+    this.http = new HttpClient(backend);
+  }
+
+  get config(): AppConfig {
+    return this.loaded;
+  }
+
+  /**
+   * Fetch and validate /config.json. A missing file keeps the build-time defaults,
+   * an unreadable or invalid one rejects so the app does not start against the wrong backend.
+   */
+  async load(): Promise<AppConfig> {
+    try {
+      const raw = await firstValueFrom(
+        this.http.get<unknown>(this.CONFIG_URL, { headers: { 'Cache-Control': 'no-cache' } })
+      );
+      this.loaded = parseAppConfig(raw);
+    } catch (error) {
+      if (!(error instanceof HttpErrorResponse && error.status === 404)) {
+        throw error;
+      }
+      console.warn(`${this.CONFIG_URL} not found, using build-time defaults`);
+    }
+    if (!environment.production) {
+      console.log('Runtime configuration:', this.loaded);
+    }
+    return this.loaded;
+  }
+}
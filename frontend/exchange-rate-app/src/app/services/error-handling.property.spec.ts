@@ -2,6 +2,7 @@ import { ExchangeRateService } from './exchange-rate.service';
 import { environment } from '../../environments/environment';
 import * as fc from 'fast-check';
 import { throwError, of } from 'rxjs';
+import { DEFAULT_APP_CONFIG } from '../utils/app-config';
 
 /**
  * Property-based tests for frontend error handling consistency
@@ -9,6 +10,13 @@ import { throwError, of } from 'rxjs';
  * Validates: Requirements 5.3, 5.5 (frontend error handling aspects)
  */
 describe('ExchangeRateService Error Handling Properties', () => {
+  // Persistence and health tracking are covered by their own specs
+  const mockStorage = {
+    read: vi.fn().mockResolvedValue(null),
+    write: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(undefined)
+  };
+  const mockHealth = { recordRatesResult: vi.fn() };
 
   /**
    * Property: For any HTTP error status code, the service should return a meaningful error message
@@ -31,7 +39,7 @@ describe('ExchangeRateService Error Handling Properties', () => {
           })
         };
 
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         try {
           await service.getExchangeRates().toPromise();
@@ -84,7 +92,7 @@ describe('ExchangeRateService Error Handling Properties', () => {
           })))
         };
 
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         try {
           await service.getExchangeRates().toPromise();
@@ -115,7 +123,7 @@ describe('ExchangeRateService Error Handling Properties', () => {
           })))
         };
 
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         try {
           await service.getExchangeRates().toPromise();
@@ -145,7 +153,7 @@ describe('ExchangeRateService Error Handling Properties', () => {
           })))
         };
 
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         try {
           await service.getExchangeRates().toPromise();
@@ -176,7 +184,7 @@ describe('ExchangeRateService Error Handling Properties', () => {
           })))
         };
 
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         try {
           await service.getExchangeRates().toPromise();
@@ -232,7 +240,7 @@ describe('ExchangeRateService Error Handling Properties', () => {
           })
         };
 
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         try {
           await service.getExchangeRates().toPromise();
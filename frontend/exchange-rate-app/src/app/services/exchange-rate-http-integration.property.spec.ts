@@ -3,6 +3,7 @@ import { ExchangeRateResponse } from '../models/exchange-rate.interface';
 import { environment } from '../../environments/environment';
 import * as fc from 'fast-check';
 import { of, throwError } from 'rxjs';
+import { DEFAULT_APP_CONFIG } from '../utils/app-config';
 
 /**
  * Property-based tests for ExchangeRateService HTTP integration
@@ -10,6 +11,13 @@ import { of, throwError } from 'rxjs';
  * Validates: Requirements 3.2
  */
 describe('ExchangeRateService HTTP Integration Property Tests', () => {
+  // Persistence and health tracking are covered by their own specs
+  const mockStorage = {
+    read: vi.fn().mockResolvedValue(null),
+    write: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(undefined)
+  };
+  const mockHealth = { recordRatesResult: vi.fn() };
 
   /**
    * Property 7: Frontend HTTP Integration
@@ -21,17 +29,17 @@ describe('ExchangeRateService HTTP Integration Property Tests', () => {
     fc.assert(fc.property(
       // Generate arbitrary exchange rate response data
       fc.record({
-        date: fc.date().map(d => d.toISOString()),
+        date: fc.date({ min: new Date('1991-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }).map(d => d.toISOString()),
         sequenceNumber: fc.integer({ min: 1, max: 999 }),
-        rates: fc.array(
+        rates: fc.uniqueArray(
           fc.record({
-            country: fc.string({ minLength: 1, maxLength: 50 }),
-            currency: fc.string({ minLength: 1, maxLength: 50 }),
+            country: fc.string({ minLength: 1, maxLength: 50 }).filter(s => s.trim().length > 0),
+            currency: fc.string({ minLength: 1, maxLength: 50 }).filter(s => s.trim().length > 0),
             amount: fc.integer({ min: 1, max: 1000 }),
-            code: fc.string({ minLength: 3, maxLength: 3 }),
+            code: fc.stringMatching(/^[A-Z]{3}$/),
             rate: fc.float({ min: Math.fround(0.001), max: Math.fround(1000), noNaN: true })
           }),
-          { minLength: 1, maxLength: 20 }
+          { selector: rate => rate.code, minLength: 1, maxLength: 20 }
         )
       }),
       (mockResponse: ExchangeRateResponse) => {
@@ -41,7 +49,7 @@ describe('ExchangeRateService HTTP Integration Property Tests', () => {
         };
         
         // Create service instance with mock
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         // Track if the subscription completed successfully
         let responseReceived = false;
@@ -103,7 +111,7 @@ describe('ExchangeRateService HTTP Integration Property Tests', () => {
           get: vi.fn().mockReturnValue(throwError(() => mockError))
         };
         
-        const service = new ExchangeRateService(mockHttpClient as any);
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
 
         // Track if error handling worked correctly
         let errorHandled = false;
@@ -156,7 +164,7 @@ describe('ExchangeRateService HTTP Integration Property Tests', () => {
       get: vi.fn().mockReturnValue(of({ date: '2024-01-01', sequenceNumber: 1, rates: [] }))
     };
     
-    const service = new ExchangeRateService(mockHttpClient as any);
+    const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
     
     // This property verifies that the service uses the environment.apiBaseUrl
     // and constructs the full endpoint URL correctly
@@ -176,4 +184,45 @@ describe('ExchangeRateService HTTP Integration Property Tests', () => {
     // Verify the URL structure is correct
     expect(expectedUrl).toBe(`${environment.apiBaseUrl}/v1.0/exchange-rates`);
   });
-});
\ No newline at end of file
+
+  /**
+   * Property 7d: Malformed rates never reach subscribers
+   * For any payload mixing well-formed and malformed rates, the service should emit only
+   * the well-formed ones and report the rest
+   */
+  it('should leave malformed rates out of any response', () => {
+    fc.assert(fc.property(
+      fc.array(
+        fc.record({
+          country: fc.oneof(fc.constant('Country'), fc.constant(''), fc.constant(null)),
+          currency: fc.constant('currency'),
+          amount: fc.oneof(fc.constantFrom(1, 100, 1000), fc.integer({ min: -10, max: 0 }), fc.constant('1')),
+          code: fc.oneof(fc.stringMatching(/^[A-Z]{3}$/), fc.string({ maxLength: 4 })),
+          rate: fc.oneof(fc.double({ min: 0.001, max: 1000, noNaN: true }), fc.double(), fc.string())
+        }),
+        { maxLength: 20 }
+      ),
+      (rows) => {
+        const mockHttpClient = {
+          get: vi.fn().mockReturnValue(of({ date: '2025-12-05T00:00:00', sequenceNumber: 236, rates: rows }))
+        };
+        const service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage as any, mockHealth as any);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        let received: ExchangeRateResponse | undefined;
+        service.getExchangeRates().subscribe(response => received = response);
+        warn.mockRestore();
+
+        const codes = received!.rates.map(rate => rate.code);
+        expect(new Set(codes).size).toBe(codes.length);
+        for (const rate of received!.rates) {
+          expect(rate.country).toBeTruthy();
+          expect(Number.isInteger(rate.amount) && rate.amount > 0).toBe(true);
+          expect(rate.code).toMatch(/^[A-Z]{3}$/);
+          expect(Number.isFinite(rate.rate) && rate.rate > 0).toBe(true);
+        }
+        expect(service.getValidationIssues().length > 0).toBe(received!.rates.length < rows.length);
+      }
+    ), { numRuns: 100 });
+  });
+});
@@ -0,0 +1,477 @@
+import { ExchangeRateService } from './exchange-rate.service';
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { RatesSnapshot } from '../models/rates-snapshot.interface';
+import { StoredRates } from './rate-cache-storage.service';
+import { environment } from '../../environments/environment';
+import { DEFAULT_APP_CONFIG } from '../utils/app-config';
+import { ExchangeRateError } from '../models/exchange-rate-error';
+import { firstValueFrom, of, Subject, throwError, toArray } from 'rxjs';
+
+describe('ExchangeRateService historical rates', () => {
+  const apiUrl = `${environment.apiBaseUrl}/v1.0/exchange-rates`;
+
+  function createResponse(date: string, sequenceNumber: number): ExchangeRateResponse {
+    return {
+      date: `${date}T00:00:00`,
+      sequenceNumber,
+      rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 }]
+    };
+  }
+
+  let mockHttpClient: { get: ReturnType<typeof vi.fn> };
+  let stored: Map<string, StoredRates>;
+  let mockStorage: any;
+  let mockHealth: any;
+  let service: ExchangeRateService;
+
+  beforeEach(() => {
+    stored = new Map();
+    mockStorage = {
+      read: vi.fn().mockImplementation(async (key: string) => stored.get(key) ?? null),
+      write: vi.fn().mockImplementation(async (key: string, entry: StoredRates) => { stored.set(key, entry); }),
+      clear: vi.fn().mockResolvedValue(undefined)
+    };
+    mockHealth = { recordRatesResult: vi.fn() };
+    mockHttpClient = {
+      get: vi.fn().mockImplementation((url: string) => {
+        const date = url.substring(apiUrl.length + 1) || '2025-12-05';
+        return of(createResponse(date, 236));
+      })
+    };
+    service = new ExchangeRateService(mockHttpClient as any, DEFAULT_APP_CONFIG, mockStorage, mockHealth);
+  });
+
+  it('should request the dated endpoint for a given date', () => {
+    let received: ExchangeRateResponse | undefined;
+    service.getExchangeRatesForDate('2025-12-01').subscribe(response => received = response);
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith(`${apiUrl}/2025-12-01`);
+    expect(received?.date).toBe('2025-12-01T00:00:00');
+  });
+
+  it('should use the API location from the runtime configuration', () => {
+    const config = { ...DEFAULT_APP_CONFIG, apiBaseUrl: 'https://staging.example.com/api', apiVersion: 'v2.0' };
+    mockHttpClient.get.mockReturnValue(of(createResponse('2025-12-01', 233)));
+    service = new ExchangeRateService(mockHttpClient as any, config, mockStorage, mockHealth);
+
+    service.getExchangeRatesForDate('2025-12-01').subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('https://staging.example.com/api/v2.0/exchange-rates/2025-12-01');
+  });
+
+  describe('response validation', () => {
+    const malformed = {
+      date: '2025-12-05T00:00:00',
+      sequenceNumber: 236,
+      rates: [
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 },
+        { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: '20.7' }
+      ]
+    };
+
+    beforeEach(() => {
+      mockHttpClient.get.mockReturnValue(of(malformed));
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => vi.restoreAllMocks());
+
+    it('should drop malformed rates and report them in lenient mode', async () => {
+      const response = await firstValueFrom(service.getExchangeRates());
+
+      expect(response.rates.map(rate => rate.code)).toEqual(['EUR']);
+      expect(service.getValidationIssues()).toEqual([
+        { path: 'rates[1].rate', message: 'expected a positive number, got "20.7" (string)' }
+      ]);
+    });
+
+    it('should fail with a parse error in strict mode without caching the response', async () => {
+      service = new ExchangeRateService(mockHttpClient as any, { ...DEFAULT_APP_CONFIG, responseValidation: 'strict' }, mockStorage, mockHealth);
+
+      const error = await firstValueFrom(service.getExchangeRates()).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExchangeRateError);
+      expect(error.kind).toBe('parse');
+      expect(service.isCacheValid()).toBe(false);
+      expect(service.getValidationIssues()).toHaveLength(1);
+    });
+  });
+
+  it('should accept Date objects and format them as YYYY-MM-DD', () => {
+    service.getExchangeRatesForDate(new Date(2025, 0, 7)).subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith(`${apiUrl}/2025-01-07`);
+  });
+
+  it('should cache responses per date', () => {
+    service.getExchangeRatesForDate('2025-12-01').subscribe();
+    service.getExchangeRatesForDate('2025-12-02').subscribe();
+    service.getExchangeRatesForDate('2025-12-01').subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    expect(service.isCacheValid('2025-12-01')).toBe(true);
+    expect(service.isCacheValid('2025-12-02')).toBe(true);
+    expect(service.isCacheValid()).toBe(false);
+  });
+
+  it('should reuse the latest rates for their publication date', () => {
+    service.getExchangeRates().subscribe();
+    service.getExchangeRatesForDate('2025-12-05').subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+    expect(mockHttpClient.get).toHaveBeenCalledWith(apiUrl);
+  });
+
+  it('should reject invalid dates without calling the API', () => {
+    let error: ExchangeRateError | undefined;
+    service.getExchangeRatesForDate('2025-02-30').subscribe({
+      error: (failure: ExchangeRateError) => error = failure
+    });
+
+    expect(error).toBeInstanceOf(ExchangeRateError);
+    expect(error?.kind).toBe('invalid-date');
+    expect(error?.retryable).toBe(false);
+    expect(error?.message).toContain('Invalid date');
+    expect(mockHttpClient.get).not.toHaveBeenCalled();
+  });
+
+  it('should report the outcome of every request to the health service', () => {
+    service.getExchangeRatesForDate('2025-12-01').subscribe();
+    expect(mockHealth.recordRatesResult).toHaveBeenLastCalledWith();
+
+    mockHttpClient.get.mockReturnValue(throwError(() => ({ status: 503, message: 'Service Unavailable', error: null })));
+    service.getExchangeRatesForDate('2025-12-02').subscribe({ error: () => undefined });
+    expect(mockHealth.recordRatesResult).toHaveBeenLastCalledWith(expect.objectContaining({ kind: 'service-unavailable' }));
+  });
+
+  it('should clear cached entries for every date', () => {
+    service.getExchangeRatesForDate('2025-12-01').subscribe();
+    service.clearCache();
+
+    expect(service.isCacheValid('2025-12-01')).toBe(false);
+    expect(service.getCacheAge('2025-12-01')).toBeNull();
+  });
+
+  describe('getPreviousFixing', () => {
+    function mockFixings(published: string[]) {
+      mockHttpClient.get.mockImplementation((url: string) => {
+        const date = url.substring(apiUrl.length + 1);
+        return published.includes(date)
+          ? of(createResponse(date, 1))
+          : throwError(() => ({ status: 404, message: 'Not Found', error: null }));
+      });
+    }
+
+    it('should skip the weekend when looking for the fixing before a Monday', () => {
+      mockFixings(['2025-12-05']);
+      let previous: ExchangeRateResponse | null | undefined;
+      service.getPreviousFixing(createResponse('2025-12-08', 237)).subscribe(response => previous = response);
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`${apiUrl}/2025-12-05`);
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith(`${apiUrl}/2025-12-07`);
+      expect(previous?.date).toBe('2025-12-05T00:00:00');
+    });
+
+    it('should walk back over weekdays without a fixing', () => {
+      // 24–26 December are Czech public holidays
+      mockFixings(['2025-12-23']);
+      let previous: ExchangeRateResponse | null | undefined;
+      service.getPreviousFixing(createResponse('2025-12-29', 250)).subscribe(response => previous = response);
+
+      expect(previous?.date).toBe('2025-12-23T00:00:00');
+    });
+
+    it('should accept an earlier fixing returned for a day without one', () => {
+      mockHttpClient.get.mockReturnValue(of(createResponse('2025-12-23', 249)));
+      let previous: ExchangeRateResponse | null | undefined;
+      service.getPreviousFixing(createResponse('2025-12-29', 250)).subscribe(response => previous = response);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+      expect(previous?.date).toBe('2025-12-23T00:00:00');
+    });
+
+    it('should emit null when no earlier fixing is found', () => {
+      mockFixings([]);
+      let previous: ExchangeRateResponse | null | undefined;
+      service.getPreviousFixing(createResponse('2025-12-08', 237)).subscribe(response => previous = response);
+
+      expect(previous).toBeNull();
+    });
+
+    it('should fail instead of walking back when the service is down', () => {
+      mockHttpClient.get.mockReturnValue(throwError(() => ({ status: 503, message: 'Service Unavailable', error: null })));
+      let previous: ExchangeRateResponse | null | undefined;
+      let error: ExchangeRateError | undefined;
+      service.getPreviousFixing(createResponse('2025-12-08', 237)).subscribe({
+        next: response => previous = response,
+        error: (failure: ExchangeRateError) => error = failure
+      });
+
+      expect(error?.kind).toBe('service-unavailable');
+      expect(previous).toBeUndefined();
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getEffectiveRate', () => {
+    function mockFixings(published: string[]) {
+      mockHttpClient.get.mockImplementation((url: string) => {
+        const date = url.substring(apiUrl.length + 1);
+        return published.includes(date)
+          ? of(createResponse(date, 236))
+          : throwError(() => ({ status: 404, message: 'Not Found', error: null }));
+      });
+    }
+
+    it('should use the last fixing published before a Saturday', async () => {
+      mockFixings(['2025-12-05']);
+
+      const effective = await firstValueFrom(service.getEffectiveRate('eur', '2025-12-06'));
+
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith(`${apiUrl}/2025-12-06`);
+      expect(effective).toEqual({
+        date: '2025-12-06',
+        fixingDate: '2025-12-05',
+        sequenceNumber: 236,
+        rate: { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 }
+      });
+    });
+
+    it('should use the fixing of the day itself when there is one', async () => {
+      mockFixings(['2025-12-04', '2025-12-05']);
+
+      const effective = await firstValueFrom(service.getEffectiveRate('EUR', '2025-12-05'));
+
+      expect(effective.fixingDate).toBe('2025-12-05');
+    });
+
+    it('should fail with not-found for a currency missing from the fixing', async () => {
+      mockFixings(['2025-12-05']);
+
+      const error = await firstValueFrom(service.getEffectiveRate('XYZ', '2025-12-05')).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ExchangeRateError);
+      expect(error.kind).toBe('not-found');
+    });
+
+    it('should pass on a failed lookup of the earlier fixing instead of reporting none was published', async () => {
+      mockHttpClient.get.mockImplementation((url: string) => url.endsWith('2025-12-08')
+        ? throwError(() => ({ status: 404, message: 'Not Found', error: null }))
+        : throwError(() => ({ status: 503, message: 'Service Unavailable', error: null })));
+
+      const saturday = await firstValueFrom(service.getEffectiveRate('EUR', '2025-12-06')).catch(caught => caught);
+      const missingDay = await firstValueFrom(service.getEffectiveFixing('2025-12-08')).catch(caught => caught);
+
+      for (const error of [saturday, missingDay]) {
+        expect(error).toBeInstanceOf(ExchangeRateError);
+        expect(error.kind).toBe('service-unavailable');
+        expect(error.retryable).toBe(true);
+      }
+    });
+  });
+
+  describe('getExchangeRatesForRange', () => {
+    it('should request only business days and return fixings oldest first', () => {
+      let responses: ExchangeRateResponse[] = [];
+      service.getExchangeRatesForRange('2025-12-05', '2025-12-09').subscribe(result => responses = result);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(3);
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith(`${apiUrl}/2025-12-06`);
+      expect(responses.map(response => response.date.substring(0, 10))).toEqual(['2025-12-05', '2025-12-08', '2025-12-09']);
+    });
+
+    it('should skip days without a fixing and keep each fixing once', () => {
+      mockHttpClient.get.mockImplementation((url: string) => {
+        const date = url.substring(apiUrl.length + 1);
+        // 2025-12-24 is a holiday: one backend answers 404, another the previous fixing
+        if (date === '2025-12-24') {
+          return throwError(() => ({ status: 404, message: 'Not Found', error: null }));
+        }
+        return of(createResponse(date === '2025-12-25' ? '2025-12-23' : date, 1));
+      });
+      let responses: ExchangeRateResponse[] = [];
+      service.getExchangeRatesForRange('2025-12-23', '2025-12-25').subscribe(result => responses = result);
+
+      expect(responses.map(response => response.date.substring(0, 10))).toEqual(['2025-12-23']);
+    });
+
+    it('should fail when a day cannot be loaded for any reason other than a missing fixing', () => {
+      mockHttpClient.get.mockImplementation((url: string) => url.endsWith('2025-12-08')
+        ? throwError(() => ({ status: 503, message: 'Service Unavailable', error: null }))
+        : of(createResponse(url.substring(apiUrl.length + 1), 1)));
+      let error: ExchangeRateError | undefined;
+      service.getExchangeRatesForRange('2025-12-05', '2025-12-09').subscribe({ error: (failure: ExchangeRateError) => error = failure });
+
+      expect(error?.kind).toBe('service-unavailable');
+    });
+
+    it('should limit the number of parallel requests', () => {
+      const pending: Subject<ExchangeRateResponse>[] = [];
+      let maxInFlight = 0;
+      mockHttpClient.get.mockImplementation((url: string) => {
+        const subject = new Subject<ExchangeRateResponse>();
+        pending.push(subject);
+        maxInFlight = Math.max(maxInFlight, pending.filter(item => !item.closed && !item.isStopped).length);
+        const date = url.substring(apiUrl.length + 1);
+        queueMicrotask(() => {
+          subject.next(createResponse(date, 1));
+          subject.complete();
+        });
+        return subject;
+      });
+
+      return new Promise<void>(resolve => {
+        service.getExchangeRatesForRange('2025-11-03', '2025-11-28', 3).subscribe(responses => {
+          // 20 weekdays, one of them the 17 November holiday
+          expect(responses.length).toBe(19);
+          expect(maxInFlight).toBeLessThanOrEqual(3);
+          resolve();
+        });
+      });
+    });
+
+    it('should reject an inverted range', () => {
+      let errorMessage = '';
+      service.getExchangeRatesForRange('2025-12-09', '2025-12-01').subscribe({
+        error: (error: Error) => errorMessage = error.message
+      });
+
+      expect(errorMessage).toContain('Invalid date range');
+    });
+  });
+
+  describe('watchExchangeRates', () => {
+    it('should persist responses received from the API', async () => {
+      await firstValueFrom(service.getExchangeRates());
+
+      expect(stored.get('latest')?.data.sequenceNumber).toBe(236);
+      expect(stored.has('2025-12-05')).toBe(true);
+    });
+
+    it('should neither read nor write persisted rates when persistence is switched off', async () => {
+      const config = { ...DEFAULT_APP_CONFIG, cache: { ...DEFAULT_APP_CONFIG.cache, persist: false } };
+      service = new ExchangeRateService(mockHttpClient as any, config, mockStorage, mockHealth);
+
+      await firstValueFrom(service.watchExchangeRates().pipe(toArray()));
+
+      expect(mockStorage.read).not.toHaveBeenCalled();
+      expect(mockStorage.write).not.toHaveBeenCalled();
+    });
+
+    it('should emit persisted rates first and then revalidate', async () => {
+      stored.set('latest', { data: createResponse('2025-12-04', 235), timestamp: Date.now() - 60 * 60 * 1000 });
+
+      const snapshots: RatesSnapshot[] = await firstValueFrom(service.watchExchangeRates().pipe(toArray()));
+
+      expect(snapshots.map(snapshot => snapshot.source)).toEqual(['storage', 'network']);
+      expect(snapshots[0].data.sequenceNumber).toBe(235);
+      expect(snapshots[1].data.sequenceNumber).toBe(236);
+      expect(snapshots.every(snapshot => !snapshot.stale)).toBe(true);
+    });
+
+    it('should not revalidate persisted rates that are still fresh', async () => {
+      stored.set('latest', { data: createResponse('2025-12-05', 236), timestamp: Date.now() });
+
+      const snapshots: RatesSnapshot[] = await firstValueFrom(service.watchExchangeRates().pipe(toArray()));
+
+      expect(snapshots.length).toBe(1);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should keep the persisted rates marked as stale when the API is unreachable', async () => {
+      const timestamp = Date.now() - 24 * 60 * 60 * 1000;
+      stored.set('latest', { data: createResponse('2025-12-01', 232), timestamp });
+      mockHttpClient.get.mockReturnValue(throwError(() => ({ status: 404, message: 'Not Found', error: null })));
+
+      const snapshots: RatesSnapshot[] = await firstValueFrom(service.watchExchangeRates().pipe(toArray()));
+
+      expect(snapshots.length).toBe(2);
+      expect(snapshots[1]).toEqual(expect.objectContaining({ stale: true, fetchedAt: timestamp, source: 'storage' }));
+    });
+
+    it('should validate persisted rates and fetch again when they are malformed', async () => {
+      stored.set('2025-12-01', { data: { date: '2025-12-01', sequenceNumber: 232, rates: 'EUR 24.3' } as any, timestamp: Date.now() });
+
+      const snapshots: RatesSnapshot[] = await firstValueFrom(service.watchExchangeRates('2025-12-01').pipe(toArray()));
+
+      expect(snapshots.map(snapshot => snapshot.source)).toEqual(['network']);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`${apiUrl}/2025-12-01`);
+    });
+
+    it('should leave malformed rates out of persisted fixings', async () => {
+      const data = createResponse('2025-12-01', 232);
+      data.rates.push({ country: 'USA', currency: 'dollar', amount: 0, code: 'USD', rate: 20.7 });
+      stored.set('2025-12-01', { data, timestamp: Date.now() });
+
+      const snapshot: RatesSnapshot = await firstValueFrom(service.watchExchangeRates('2025-12-01'));
+
+      expect(snapshot.data.rates.map(rate => rate.code)).toEqual(['EUR']);
+      expect(service.getValidationIssues('2025-12-01').length).toBe(1);
+    });
+
+    it('should serve persisted past fixings without revalidating them', async () => {
+      stored.set('2025-12-01', { data: createResponse('2025-12-01', 232), timestamp: Date.now() - 24 * 60 * 60 * 1000 });
+
+      const snapshots: RatesSnapshot[] = await firstValueFrom(service.watchExchangeRates('2025-12-01').pipe(toArray()));
+
+      expect(snapshots.length).toBe(1);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the API is unreachable and nothing is persisted', async () => {
+      mockHttpClient.get.mockReturnValue(throwError(() => ({ status: 404, message: 'Not Found', error: null })));
+
+      await expect(firstValueFrom(service.watchExchangeRates('2025-12-01'))).rejects.toBeInstanceOf(Error);
+    });
+  });
+
+  describe('pollLatestRates', () => {
+    const interval = 60 * 1000;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should check every interval only while the page is visible', () => {
+      const visible$ = new Subject<boolean>();
+      const received: ExchangeRateResponse[] = [];
+      const subscription = service.pollLatestRates(interval, visible$).subscribe(response => received.push(response));
+
+      visible$.next(true);
+      vi.advanceTimersByTime(0);
+      expect(received.length).toBe(1);
+      vi.advanceTimersByTime(interval);
+      expect(received.length).toBe(2);
+
+      visible$.next(false);
+      vi.advanceTimersByTime(3 * interval);
+      expect(received.length).toBe(2);
+
+      // Checked again as soon as the tab is shown
+      visible$.next(true);
+      vi.advanceTimersByTime(0);
+      expect(received.length).toBe(3);
+      subscription.unsubscribe();
+    });
+
+    it('should skip failed checks and keep polling', () => {
+      mockHttpClient.get.mockReturnValueOnce(throwError(() => ({ status: 404, message: 'Not Found', error: null })));
+      const received: ExchangeRateResponse[] = [];
+      let failed = false;
+      const subscription = service.pollLatestRates(interval, of(true)).subscribe({
+        next: response => received.push(response),
+        error: () => failed = true
+      });
+
+      vi.advanceTimersByTime(interval);
+
+      expect(failed).toBe(false);
+      expect(received.map(response => response.sequenceNumber)).toEqual([236]);
+      subscription.unsubscribe();
+    });
+  });
+});
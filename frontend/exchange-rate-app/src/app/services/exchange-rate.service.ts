@@ -1,9 +1,19 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError, of } from 'rxjs';
-import { catchError, retry, tap, shareReplay } from 'rxjs/operators';
-import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { Observable, Subject, throwError, of, from, concat, defer, timer, EMPTY } from 'rxjs';
+import { catchError, tap, shareReplay, switchMap, mergeMap, toArray, map } from 'rxjs/operators';
+import { EffectiveRate, ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { RatesSnapshot } from '../models/rates-snapshot.interface';
+import { ExchangeRateError, toExchangeRateError } from '../models/exchange-rate-error';
+import { RateCacheStorageService, StoredRates } from './rate-cache-storage.service';
+import { HealthService } from './health.service';
+import { AppConfig, ResponseValidationMode } from '../models/app-config.interface';
+import { apiEndpoint, APP_CONFIG } from '../utils/app-config';
 import { environment } from '../../environments/environment';
+import { addDays, isIsoDate, normalizeIsoDate } from '../utils/date-utils';
+import { pageVisibility } from '../utils/page-visibility';
+import { formatIssue, ResponseValidationError, validateExchangeRateResponse, ValidationIssue } from '../utils/response-validation';
+import { FixingFreshness, getCacheExpiry, getFixingFreshness, isCnbBusinessDay, nextPublicationTime, previousBusinessDay } from '../utils/cnb-calendar';
 
 interface CacheEntry {
   data: ExchangeRateResponse;
@@ -14,120 +24,429 @@ interface CacheEntry {
   providedIn: 'root'
 })
 export class ExchangeRateService {
-  private readonly apiUrl = `${environment.apiBaseUrl}/v1.0/exchange-rates`;
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
-  private cache: CacheEntry | null = null;
-  private pendingRequest: Observable<ExchangeRateResponse> | null = null;
+  private readonly apiUrl: string;
+  private readonly recheckInterval: number;
+  private readonly validationMode: ResponseValidationMode;
+  private readonly persist: boolean;
+  private readonly LATEST_KEY = 'latest';
+  // Business days the CNB unexpectedly skipped before giving up
+  private readonly MAX_PREVIOUS_FIXING_LOOKUPS = 5;
+  private readonly RANGE_CONCURRENCY = 4;
+  private cache = new Map<string, CacheEntry>();
+  private pendingRequests = new Map<string, Observable<ExchangeRateResponse>>();
+  private validationIssues = new Map<string, ValidationIssue[]>();
+  private received = new Subject<ExchangeRateResponse>();
 
-  constructor(private http: HttpClient) {}
+  /**
+   * Every response received from the API, latest or for a date, once validated; cached copies are not repeated
+   */
+  readonly responses$: Observable<ExchangeRateResponse> = this.received.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    @Inject(APP_CONFIG) config: AppConfig,
+    private storage: RateCacheStorageService,
+    private health: HealthService
+  ) {
+    this.apiUrl = apiEndpoint(config, 'exchange-rates');
+    this.recheckInterval = config.cache.recheckIntervalMinutes * 60 * 1000;
+    this.validationMode = config.responseValidation;
+    this.persist = config.cache.persist;
+  }
 
+  /**
+   * Get the most recently published exchange rates
+   */
   getExchangeRates(): Observable<ExchangeRateResponse> {
+    return this.fetchRates(this.LATEST_KEY, this.apiUrl);
+  }
+
+  /**
+   * Get the exchange rates published for a specific date (YYYY-MM-DD)
+   */
+  getExchangeRatesForDate(date: Date | string): Observable<ExchangeRateResponse> {
+    const isoDate = normalizeIsoDate(date);
+    if (!isIsoDate(isoDate)) {
+      return throwError(() => new ExchangeRateError('invalid-date', `Invalid date "${isoDate}". Expected format YYYY-MM-DD.`));
+    }
+    return this.fetchRates(isoDate, `${this.apiUrl}/${isoDate}`);
+  }
+
+  /**
+   * Stale-while-revalidate view of the rates for a date, or of the latest rates when no date is given.
+   * Emits the persisted copy first (if any) and then the response from the API.
+   * When the API cannot be reached, completes with the persisted copy marked as stale instead of failing.
+   */
+  watchExchangeRates(date?: string): Observable<RatesSnapshot> {
+    const cacheKey = date || this.LATEST_KEY;
+    const network$ = defer(() => date ? this.getExchangeRatesForDate(date) : this.getExchangeRates()).pipe(
+      map((data): RatesSnapshot => ({
+        data,
+        fetchedAt: this.cache.get(cacheKey)?.timestamp ?? Date.now(),
+        source: 'network',
+        stale: false
+      }))
+    );
+
+    if (!this.persist || this.isCacheValid(cacheKey)) {
+      return network$;
+    }
+
+    return from(this.storage.read(cacheKey)).pipe(
+      map(stored => stored && this.validateStored(cacheKey, stored)),
+      switchMap(stored => {
+        if (!stored) {
+          return network$;
+        }
+        const persisted: RatesSnapshot = {
+          data: stored.data,
+          fetchedAt: stored.timestamp,
+          source: 'storage',
+          stale: false
+        };
+        // No newer fixing expected yet, e.g. after a reload or in a second tab
+        if (this.isFresh(cacheKey, stored)) {
+          this.cache.set(cacheKey, stored);
+          return of(persisted);
+        }
+        return concat(
+          of(persisted),
+          network$.pipe(
+            catchError(error => {
+              if (!environment.production) {
+                console.warn(`Revalidation failed, keeping persisted exchange rates (${cacheKey})`, error);
+              }
+              return of({ ...persisted, stale: true });
+            })
+          )
+        );
+      })
+    );
+  }
+
+  /**
+   * Check the latest rates every interval while the page is visible, and right away whenever it is shown again.
+   * Goes through the cache, so the API is only asked once the CNB is due to publish; failed checks are skipped.
+   */
+  pollLatestRates(interval: number, visible$: Observable<boolean> = pageVisibility()): Observable<ExchangeRateResponse> {
+    return visible$.pipe(
+      switchMap(visible => visible ? timer(0, interval) : EMPTY),
+      switchMap(() => this.getExchangeRates().pipe(
+        catchError(error => {
+          if (!environment.production) {
+            console.warn('Checking for new exchange rates failed', error);
+          }
+          return EMPTY;
+        })
+      ))
+    );
+  }
+
+  /**
+   * How up to date a fixing is according to the CNB publication calendar
+   */
+  getFreshness(fixingDate: string, now: Date = new Date()): FixingFreshness {
+    return getFixingFreshness(normalizeIsoDate(fixingDate), now);
+  }
+
+  /**
+   * When the CNB is expected to publish the next fixing
+   */
+  getNextPublication(now: Date = new Date()): Date {
+    return nextPublicationTime(now);
+  }
+
+  /**
+   * Get the fixing published before the given one.
+   * Walks back over weekends and public holidays, and over business days that still lack a fixing.
+   * Emits null when no earlier fixing could be found and fails on any other error, e.g. while the service is down.
+   */
+  getPreviousFixing(response: ExchangeRateResponse): Observable<ExchangeRateResponse | null> {
+    return this.getFixingBefore(response.date);
+  }
+
+  /**
+   * Get the closest fixing published strictly before a date (YYYY-MM-DD), e.g. for a date without one.
+   * Emits null when no earlier fixing could be found and fails on any other error.
+   */
+  getFixingBefore(date: string): Observable<ExchangeRateResponse | null> {
+    return this.findFixingBefore(normalizeIsoDate(date), this.MAX_PREVIOUS_FIXING_LOOKUPS);
+  }
+
+  /**
+   * Get the fixing that applies on a date (YYYY-MM-DD): the one published that day or, for weekends, public holidays
+   * and days whose fixing is not out yet, the most recent one published before it.
+   * Fails with a not-found ExchangeRateError when no such fixing can be found, and with the error of the failed
+   * request when the API could not answer.
+   */
+  getEffectiveFixing(date: string): Observable<ExchangeRateResponse> {
+    const isoDate = normalizeIsoDate(date);
+    if (!isIsoDate(isoDate)) {
+      return throwError(() => new ExchangeRateError('invalid-date', `Invalid date "${isoDate}". Expected format YYYY-MM-DD.`));
+    }
+
+    const sameDay$: Observable<ExchangeRateResponse | null> = isCnbBusinessDay(isoDate)
+      ? this.getExchangeRatesForDate(isoDate).pipe(notFoundAsNull)
+      : of(null);
+
+    return sameDay$.pipe(
+      // CNB may answer a day without a fixing with the last published one, which applies just as well
+      switchMap(response => response && normalizeIsoDate(response.date) <= isoDate ? of(response) : this.getFixingBefore(isoDate)),
+      map(response => {
+        if (!response) {
+          throw new ExchangeRateError('not-found', `No fixing was published on or before ${isoDate}.`);
+        }
+        return response;
+      })
+    );
+  }
+
+  /**
+   * Get the rate of a currency that applies on a date, together with the date and sequence number
+   * of the fixing it was taken from, see getEffectiveFixing
+   */
+  getEffectiveRate(code: string, date: string): Observable<EffectiveRate> {
+    const currencyCode = code.trim().toUpperCase();
+    return this.getEffectiveFixing(date).pipe(
+      map(fixing => {
+        const rate = fixing.rates.find(item => item.code === currencyCode);
+        if (!rate) {
+          throw new ExchangeRateError('not-found', `The fixing of ${normalizeIsoDate(fixing.date)} has no rate for ${currencyCode}.`);
+        }
+        return {
+          date: normalizeIsoDate(date),
+          fixingDate: normalizeIsoDate(fixing.date),
+          sequenceNumber: fixing.sequenceNumber,
+          rate
+        };
+      })
+    );
+  }
+
+  /**
+   * Get every fixing published between two dates (inclusive), oldest first.
+   * Requests are issued per CNB business day with limited concurrency and go through the per-date cache,
+   * days without a fixing are skipped; any other failure fails the whole range rather than leaving a gap.
+   */
+  getExchangeRatesForRange(
+    fromDate: string,
+    toDate: string,
+    concurrency = this.RANGE_CONCURRENCY
+  ): Observable<ExchangeRateResponse[]> {
+    if (!isIsoDate(fromDate) || !isIsoDate(toDate) || fromDate > toDate) {
+      return throwError(() => new ExchangeRateError('invalid-date', `Invalid date range "${fromDate}" – "${toDate}".`));
+    }
+
+    const dates: string[] = [];
+    for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+      if (isCnbBusinessDay(date)) {
+        dates.push(date);
+      }
+    }
+
+    return from(dates).pipe(
+      mergeMap(
+        date => this.getExchangeRatesForDate(date).pipe(notFoundAsNull),
+        concurrency
+      ),
+      toArray(),
+      map(responses => {
+        // A day without a fixing may be answered with the previous one, keep each fixing once
+        const byDate = new Map<string, ExchangeRateResponse>();
+        for (const response of responses) {
+          if (response) {
+            byDate.set(normalizeIsoDate(response.date), response);
+          }
+        }
+        return [...byDate.entries()]
+          .filter(([date]) => date >= fromDate && date <= toDate)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([, response]) => response);
+      })
+    );
+  }
+
+  /**
+   * Clear the cache to force a fresh API call
+   */
+  clearCache(): void {
+    this.cache.clear();
+    // Also drops copies persisted before persistence was switched off
+    this.storage.clear();
+    if (!environment.production) {
+      console.log('Exchange rates cache cleared');
+    }
+  }
+
+  /**
+   * Check if cached data is available for the given date, or for the latest rates when omitted
+   */
+  isCacheValid(date?: string): boolean {
+    const cacheKey = date ?? this.LATEST_KEY;
+    const entry = this.cache.get(cacheKey);
+    return entry !== undefined && this.isFresh(cacheKey, entry);
+  }
+
+  /**
+   * Get cache age in seconds for the given date, or for the latest rates when omitted
+   */
+  getCacheAge(date?: string): number | null {
+    const entry = this.cache.get(date ?? this.LATEST_KEY);
+    if (!entry) {
+      return null;
+    }
+    return Math.floor((Date.now() - entry.timestamp) / 1000);
+  }
+
+  /**
+   * Problems found in the last response for the given date, or for the latest rates when omitted.
+   * In lenient mode the malformed rates they refer to were left out of the response.
+   */
+  getValidationIssues(date?: string): ValidationIssue[] {
+    return this.validationIssues.get(date ?? this.LATEST_KEY) ?? [];
+  }
+
+  private findFixingBefore(fixingDate: string, lookupsLeft: number, candidate = previousBusinessDay(fixingDate)): Observable<ExchangeRateResponse | null> {
+    if (lookupsLeft <= 0) {
+      return of(null);
+    }
+    const tryEarlierDay = () => this.findFixingBefore(fixingDate, lookupsLeft - 1, previousBusinessDay(candidate));
+
+    return this.getExchangeRatesForDate(candidate).pipe(
+      notFoundAsNull,
+      // CNB may answer a day without a fixing with the last published one, so compare dates
+      switchMap(response => response && normalizeIsoDate(response.date) < fixingDate ? of(response) : tryEarlierDay())
+    );
+  }
+
+  private fetchRates(cacheKey: string, url: string): Observable<ExchangeRateResponse> {
     // Check if cache is valid
-    if (this.cache && Date.now() - this.cache.timestamp < this.CACHE_DURATION) {
+    const cached = this.cache.get(cacheKey);
+    if (cached && this.isFresh(cacheKey, cached)) {
       if (!environment.production) {
-        console.log('Returning cached exchange rates');
+        console.log(`Returning cached exchange rates (${cacheKey})`);
       }
-      return of(this.cache.data);
+      return of(cached.data);
     }
 
     // If there's already a pending request, return it to avoid duplicate requests
-    if (this.pendingRequest) {
+    const pending = this.pendingRequests.get(cacheKey);
+    if (pending) {
       if (!environment.production) {
-        console.log('Returning pending request for exchange rates');
+        console.log(`Returning pending request for exchange rates (${cacheKey})`);
       }
-      return this.pendingRequest;
+      return pending;
     }
 
     if (!environment.production) {
-      console.log('Fetching fresh exchange rates from API');
+      console.log(`Fetching fresh exchange rates from API (${cacheKey})`);
     }
-    
-    this.pendingRequest = this.http.get<ExchangeRateResponse>(this.apiUrl)
+
+    // Transient failures are retried by retryInterceptor
+    const request = this.http.get<unknown>(url)
       .pipe(
-        retry({
-          count: 3,
-          delay: 1000
-        }),
+        map(body => this.validateResponse(cacheKey, body)),
         tap(response => {
           // Update cache
-          this.cache = {
+          const entry: CacheEntry = {
             data: response,
             timestamp: Date.now()
           };
+          this.cache.set(cacheKey, entry);
+          this.persistEntry(cacheKey, entry);
+          // Latest rates are also the rates for their publication date
+          if (cacheKey === this.LATEST_KEY && response.date) {
+            this.cache.set(normalizeIsoDate(response.date), entry);
+            this.persistEntry(normalizeIsoDate(response.date), entry);
+          }
+          this.health.recordRatesResult();
           if (!environment.production) {
-            console.log('Exchange rates cached successfully');
+            console.log(`Exchange rates cached successfully (${cacheKey})`);
           }
+          this.received.next(response);
         }),
         catchError(this.handleError.bind(this)),
         shareReplay(1), // Share the result with multiple subscribers
         tap({
           complete: () => {
             // Clear pending request when complete
-            this.pendingRequest = null;
+            this.pendingRequests.delete(cacheKey);
           },
           error: () => {
             // Clear pending request on error
-            this.pendingRequest = null;
+            this.pendingRequests.delete(cacheKey);
           }
         })
       );
 
-    return this.pendingRequest;
+    this.pendingRequests.set(cacheKey, request);
+    return request;
   }
 
-  /**
-   * Clear the cache to force a fresh API call
-   */
-  clearCache(): void {
-    this.cache = null;
-    if (!environment.production) {
-      console.log('Exchange rates cache cleared');
+  private persistEntry(cacheKey: string, entry: CacheEntry): void {
+    if (this.persist) {
+      this.storage.write(cacheKey, entry);
     }
   }
 
   /**
-   * Check if cached data is available
+   * Past fixings never change; the latest one is kept until the CNB is due to publish the next
    */
-  isCacheValid(): boolean {
-    return this.cache !== null && Date.now() - this.cache.timestamp < this.CACHE_DURATION;
+  private isFresh(cacheKey: string, entry: CacheEntry): boolean {
+    const requestedDate = cacheKey === this.LATEST_KEY ? undefined : cacheKey;
+    return Date.now() < getCacheExpiry(normalizeIsoDate(entry.data.date), entry.timestamp, requestedDate, this.recheckInterval);
+  }
+
+  private validateResponse(cacheKey: string, body: unknown): ExchangeRateResponse {
+    try {
+      const { response, issues } = validateExchangeRateResponse(body, this.validationMode);
+      this.validationIssues.set(cacheKey, issues);
+      if (issues.length > 0 && !environment.production) {
+        console.warn(`Dropped malformed exchange rates (${cacheKey}): ${issues.map(formatIssue).join('; ')}`);
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof ResponseValidationError) {
+        this.validationIssues.set(cacheKey, error.issues);
+        throw new ExchangeRateError('parse', 'The exchange rate data could not be read. Please try again later.', {
+          status: 200,
+          retryable: false,
+          cause: error
+        });
+      }
+      throw error;
+    }
   }
 
   /**
-   * Get cache age in seconds
+   * Check a persisted copy like a response from the API; one that no longer passes is treated as missing
    */
-  getCacheAge(): number | null {
-    if (!this.cache) {
-      return null;
-    }
-    return Math.floor((Date.now() - this.cache.timestamp) / 1000);
-  }
-
-  private handleError(error: HttpErrorResponse): Observable<never> {
-    let errorMessage = 'An unknown error occurred';
-    
-    if (error.error instanceof ErrorEvent) {
-      // Client-side error
-      errorMessage = `Network error: ${error.error.message}`;
-    } else {
-      // Server-side error
-      switch (error.status) {
-        case 503:
-          errorMessage = 'Exchange rate service is temporarily unavailable. Please try again later.';
-          break;
-        case 500:
-          errorMessage = 'Internal server error. Please try again later.';
-          break;
-        case 0:
-          errorMessage = 'Unable to connect to the server. Please check your internet connection.';
-          break;
-        default:
-          errorMessage = `Server returned code ${error.status}: ${error.message}`;
+  private validateStored(cacheKey: string, stored: StoredRates): StoredRates | null {
+    try {
+      return { ...stored, data: this.validateResponse(cacheKey, stored.data) };
+    } catch (error) {
+      if (!environment.production) {
+        console.warn(`Ignoring malformed persisted exchange rates (${cacheKey})`, error);
       }
+      return null;
     }
-    
+  }
+
+  private handleError(error: HttpErrorResponse | ExchangeRateError): Observable<never> {
+    const exchangeRateError = error instanceof ExchangeRateError ? error : toExchangeRateError(error);
+    this.health.recordRatesResult(exchangeRateError);
     if (!environment.production) {
       console.error('ExchangeRateService error:', error);
     }
-    return throwError(() => new Error(errorMessage));
+    return throwError(() => exchangeRateError);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Emits null for a date the API has no fixing for, e.g. an unexpected holiday, and passes on any other failure
+ */
+function notFoundAsNull(source: Observable<ExchangeRateResponse>): Observable<ExchangeRateResponse | null> {
+  return source.pipe(
+    catchError(error => error instanceof ExchangeRateError && error.kind === 'not-found' ? of(null) : throwError(() => error))
+  );
+}
@@ -0,0 +1,36 @@
+import { FavoritesService } from './favorites.service';
+
+describe('FavoritesService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should start without favorites', () => {
+    expect(new FavoritesService().favorites()).toEqual([]);
+  });
+
+  it('should toggle a currency on and off', () => {
+    const service = new FavoritesService();
+
+    service.toggle('EUR');
+    service.toggle('USD');
+    expect(service.favorites()).toEqual(['EUR', 'USD']);
+    expect(service.isFavorite('EUR')).toBe(true);
+
+    service.toggle('EUR');
+    expect(service.favorites()).toEqual(['USD']);
+    expect(service.isFavorite('EUR')).toBe(false);
+  });
+
+  it('should keep favorites across service instances, as after a page reload', () => {
+    new FavoritesService().toggle('GBP');
+
+    expect(new FavoritesService().favorites()).toEqual(['GBP']);
+  });
+
+  it('should ignore corrupted storage', () => {
+    localStorage.setItem('exchange-rate-favorites', '{not json');
+
+    expect(new FavoritesService().favorites()).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { Injectable, signal } from '@angular/core';
+import { environment } from '../../environments/environment';
+
+/**
+ * Favorite currency codes, persisted in localStorage so they survive reloads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FavoritesService {
+  private readonly STORAGE_KEY = 'exchange-rate-favorites';
+  private readonly codes = signal<string[]>(this.load());
+
+  readonly favorites = this.codes.asReadonly();
+
+  isFavorite(code: string): boolean {
+    return this.codes().includes(code);
+  }
+
+  toggle(code: string): void {
+    const codes = this.codes();
+    this.codes.set(codes.includes(code) ? codes.filter(item => item !== code) : [...codes, code]);
+    this.save();
+  }
+
+  private load(): string[] {
+    try {
+      const raw = localStorage.getItem(this.STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter((code): code is string => typeof code === 'string') : [];
+    } catch (error) {
+      this.logFailure('read', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.codes()));
+    } catch (error) {
+      // Storage disabled: favorites still work until the page is reloaded
+      this.logFailure('write', error);
+    }
+  }
+
+  private logFailure(operation: string, error: unknown): void {
+    if (!environment.production) {
+      console.warn(`FavoritesService ${operation} failed:`, error);
+    }
+  }
+}
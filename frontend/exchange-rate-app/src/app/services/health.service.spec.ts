@@ -0,0 +1,102 @@
+import { HealthService } from './health.service';
+import { TranslationService } from './translation.service';
+import { ExchangeRateError } from '../models/exchange-rate-error';
+import { environment } from '../../environments/environment';
+import { firstValueFrom, of, throwError } from 'rxjs';
+import { DEFAULT_APP_CONFIG } from '../utils/app-config';
+
+describe('HealthService', () => {
+  const healthUrl = `${environment.apiBaseUrl}/v1.0/health`;
+  let mockHttpClient: { get: ReturnType<typeof vi.fn> };
+  let service: HealthService;
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: vi.fn().mockReturnValue(of({ status: 'Healthy', timestamp: '2025-12-05T14:35:00Z', version: '1.0.0', uptime: '01:00:00' }))
+    };
+    service = new HealthService(mockHttpClient as any, DEFAULT_APP_CONFIG, new TranslationService());
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it('should report a healthy backend', async () => {
+    expect(await firstValueFrom(service.check())).toBe('healthy');
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith(healthUrl, expect.anything());
+    expect(service.status().backend).toBe('healthy');
+    expect(service.status().version).toBe('1.0.0');
+    expect(service.isDegraded()).toBe(false);
+    expect(service.message()).toBe('');
+  });
+
+  it('should pass on a degraded state reported by the backend', async () => {
+    mockHttpClient.get.mockReturnValue(of({ status: 'Degraded', timestamp: '', version: '1.0.0', uptime: '' }));
+
+    await firstValueFrom(service.check());
+
+    expect(service.status().backend).toBe('degraded');
+    expect(service.message()).toContain('degraded');
+  });
+
+  it('should treat an unreachable health endpoint as unhealthy', async () => {
+    mockHttpClient.get.mockReturnValue(throwError(() => ({ status: 0 })));
+
+    expect(await firstValueFrom(service.check())).toBe('unhealthy');
+    expect(service.isDegraded()).toBe(true);
+  });
+
+  it('should infer CNB health from exchange rate requests', () => {
+    service.recordRatesResult(new ExchangeRateError('service-unavailable', 'Service unavailable', { status: 503 }));
+    expect(service.status().cnb).toBe('unhealthy');
+    expect(service.message()).toContain('Czech National Bank');
+
+    service.recordRatesResult();
+    expect(service.status().cnb).toBe('healthy');
+    expect(service.isDegraded()).toBe(false);
+  });
+
+  it('should check on every poll whether the CNB is back once a rate request found it down', async () => {
+    const ratesUrl = `${environment.apiBaseUrl}/v1.0/exchange-rates`;
+    const health = of({ status: 'Healthy', timestamp: '', version: '1.0.0', uptime: '' });
+    service.recordRatesResult(new ExchangeRateError('service-unavailable', 'Service unavailable', { status: 503 }));
+
+    mockHttpClient.get.mockImplementation((url: string) => url === ratesUrl ? throwError(() => ({ status: 503 })) : health);
+    await firstValueFrom(service.check());
+    expect(service.status().cnb).toBe('unhealthy');
+
+    mockHttpClient.get.mockImplementation((url: string) => url === ratesUrl ? throwError(() => ({ status: 0 })) : health);
+    await firstValueFrom(service.check());
+    expect(service.status().cnb).toBe('unhealthy');
+
+    mockHttpClient.get.mockImplementation((url: string) => url === ratesUrl ? of({ date: '2025-12-05', sequenceNumber: 236, rates: [] }) : health);
+    expect(await firstValueFrom(service.check())).toBe('healthy');
+    expect(mockHttpClient.get).toHaveBeenCalledWith(ratesUrl, expect.anything());
+    expect(service.status().cnb).toBe('healthy');
+    expect(service.message()).toBe('');
+
+    mockHttpClient.get.mockClear();
+    await firstValueFrom(service.check());
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep a single poll running when started repeatedly', () => {
+    vi.useFakeTimers();
+    try {
+      service.start(1000);
+      service.start(1000);
+      vi.advanceTimersByTime(0);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+
+      service.stop();
+      vi.advanceTimersByTime(5000);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,174 @@
+import { Inject, Injectable, computed, signal } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable, Subscription, of, timer } from 'rxjs';
+import { catchError, map, switchMap, tap, timeout } from 'rxjs/operators';
+import { DetailedHealthResponse, HealthResponse, HealthState, HealthStatus } from '../models/health.interface';
+import { ExchangeRateError } from '../models/exchange-rate-error';
+import { AppConfig } from '../models/app-config.interface';
+import { DISABLE_RETRY } from '../interceptors/retry.interceptor';
+import { apiEndpoint, APP_CONFIG } from '../utils/app-config';
+import { TranslationService } from './translation.service';
+import { environment } from '../../environments/environment';
+
+/**
+ * Polls the backend health endpoints and tracks the health of the upstream CNB service
+ * as seen by exchange rate requests. Once the CNB is found down, every poll also checks whether it is back.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HealthService {
+  private readonly healthUrl: string;
+  private readonly ratesUrl: string;
+  private readonly pollingEnabled: boolean;
+  private readonly POLL_INTERVAL = 60 * 1000;
+  private readonly REQUEST_TIMEOUT = 10 * 1000;
+  private readonly state = signal<HealthStatus>({ backend: 'unknown', cnb: 'unknown', version: null, checkedAt: null });
+  private pollSubscription: Subscription | null = null;
+
+  readonly status = this.state.asReadonly();
+
+  readonly isDegraded = computed(() => {
+    const { backend, cnb } = this.state();
+    return backend === 'degraded' || backend === 'unhealthy' || cnb === 'degraded' || cnb === 'unhealthy';
+  });
+
+  /**
+   * Summary for the user in the current language, empty while everything is healthy
+   */
+  readonly message = computed(() => {
+    const { backend, cnb } = this.state();
+    if (backend === 'unhealthy') {
+      return this.translation.translate('health.backendUnhealthy');
+    }
+    if (backend === 'degraded') {
+      return this.translation.translate('health.backendDegraded');
+    }
+    if (cnb === 'unhealthy' || cnb === 'degraded') {
+      return this.translation.translate('health.cnbUnavailable');
+    }
+    return '';
+  });
+
+  constructor(
+    private http: HttpClient,
+    @Inject(APP_CONFIG) config: AppConfig,
+    private translation: TranslationService
+  ) {
+    this.healthUrl = apiEndpoint(config, 'health');
+    this.ratesUrl = apiEndpoint(config, 'exchange-rates');
+    this.pollingEnabled = config.features.healthMonitoring;
+  }
+
+  /**
+   * Check the backend now and then periodically until stopped; calling it again keeps a single poll running.
+   * Does nothing when health monitoring is switched off in the runtime configuration.
+   */
+  start(interval = this.POLL_INTERVAL): void {
+    if (this.pollSubscription || !this.pollingEnabled) {
+      return;
+    }
+    this.pollSubscription = timer(0, interval)
+      .pipe(switchMap(() => this.check()))
+      .subscribe();
+  }
+
+  stop(): void {
+    this.pollSubscription?.unsubscribe();
+    this.pollSubscription = null;
+  }
+
+  /**
+   * Query the basic health endpoint and update the status, and the CNB status while it is degraded
+   */
+  check(): Observable<HealthState> {
+    // The next poll is the retry
+    const context = new HttpContext().set(DISABLE_RETRY, true);
+    return this.http.get<HealthResponse>(this.healthUrl, { context }).pipe(
+      timeout(this.REQUEST_TIMEOUT),
+      map(response => {
+        const backend = toHealthState(response.status);
+        this.state.update(current => ({ ...current, backend, version: response.version, checkedAt: Date.now() }));
+        return backend;
+      }),
+      catchError(error => {
+        if (!environment.production) {
+          console.warn('Health check failed:', error);
+        }
+        this.state.update(current => ({ ...current, backend: 'unhealthy', checkedAt: Date.now() }));
+        return of<HealthState>('unhealthy');
+      }),
+      switchMap(backend => this.shouldCheckUpstream(backend)
+        ? this.checkUpstream().pipe(map(() => backend))
+        : of(backend))
+    );
+  }
+
+  /**
+   * Environment and resource details of the backend, for diagnostics
+   */
+  getDetailedHealth(): Observable<DetailedHealthResponse> {
+    return this.http.get<DetailedHealthResponse>(`${this.healthUrl}/detailed`).pipe(
+      timeout(this.REQUEST_TIMEOUT)
+    );
+  }
+
+  /**
+   * The health endpoint does not cover the CNB, so while it is marked down it is asked again
+   * whenever the backend answers
+   */
+  private shouldCheckUpstream(backend: HealthState): boolean {
+    const { cnb } = this.state();
+    return backend !== 'unhealthy' && (cnb === 'unhealthy' || cnb === 'degraded');
+  }
+
+  /**
+   * Request the latest rates to see whether the backend can reach the CNB again.
+   * Only a 503 means it cannot; other failures say nothing about the CNB and keep its state.
+   */
+  private checkUpstream(): Observable<HealthState> {
+    const context = new HttpContext().set(DISABLE_RETRY, true);
+    return this.http.get<unknown>(this.ratesUrl, { context }).pipe(
+      timeout(this.REQUEST_TIMEOUT),
+      map((): HealthState => 'healthy'),
+      catchError(error => of<HealthState>(error?.status === 503 ? 'unhealthy' : this.state().cnb)),
+      tap(cnb => this.state.update(current => ({ ...current, cnb })))
+    );
+  }
+
+  /**
+   * Record the outcome of an exchange rate request.
+   * The backend answers 503 when the CNB cannot be reached, which is the only signal of upstream health.
+   */
+  recordRatesResult(error?: unknown): void {
+    if (!error) {
+      // A rate response proves the backend is reachable, but keeps a degraded state it reported itself
+      this.state.update(current => ({
+        ...current,
+        backend: current.backend === 'degraded' ? 'degraded' : 'healthy',
+        cnb: 'healthy'
+      }));
+      return;
+    }
+    if (error instanceof ExchangeRateError) {
+      if (error.kind === 'service-unavailable') {
+        this.state.update(current => ({ ...current, cnb: 'unhealthy' }));
+      } else if (error.kind === 'network' || error.kind === 'timeout') {
+        this.state.update(current => ({ ...current, backend: 'unhealthy' }));
+      }
+    }
+  }
+}
+
+function toHealthState(status: string | undefined): HealthState {
+  switch (status?.toLowerCase()) {
+    case 'healthy':
+      return 'healthy';
+    case 'degraded':
+      return 'degraded';
+    case 'unhealthy':
+      return 'unhealthy';
+    default:
+      return 'unknown';
+  }
+}
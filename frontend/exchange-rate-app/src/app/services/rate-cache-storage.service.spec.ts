@@ -0,0 +1,66 @@
+import { RateCacheStorageService, StoredRates } from './rate-cache-storage.service';
+
+describe('RateCacheStorageService', () => {
+  const entry: StoredRates = {
+    data: {
+      date: '2025-12-05T00:00:00',
+      sequenceNumber: 236,
+      rates: [{ country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 }]
+    },
+    timestamp: 1764944100000
+  };
+
+  let storage: RateCacheStorageService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = new RateCacheStorageService();
+  });
+
+  // jsdom has no IndexedDB, so these exercise the localStorage fallback
+  it('should fall back to localStorage when IndexedDB is unavailable', async () => {
+    await storage.write('latest', entry);
+
+    expect(localStorage.getItem('exchange-rate-cache:latest')).not.toBeNull();
+    expect(await storage.read('latest')).toEqual(entry);
+  });
+
+  it('should survive a new service instance, as after a page reload', async () => {
+    await storage.write('2025-12-05', entry);
+
+    expect(await new RateCacheStorageService().read('2025-12-05')).toEqual(entry);
+  });
+
+  it('should report a miss for unknown keys and corrupt entries', async () => {
+    localStorage.setItem('exchange-rate-cache:broken', '{not json');
+
+    expect(await storage.read('missing')).toBeNull();
+    expect(await storage.read('broken')).toBeNull();
+  });
+
+  it('should drop the least recently written entries beyond 100', async () => {
+    localStorage.setItem('exchange-rate-cache:corrupt', '{not json');
+    for (let day = 0; day < 100; day++) {
+      await storage.write(`day-${day}`, { ...entry, timestamp: entry.timestamp + day });
+    }
+
+    expect(await storage.read('corrupt')).toBeNull();
+    expect(await storage.read('day-0')).toEqual({ ...entry, timestamp: entry.timestamp });
+
+    await storage.write('day-100', { ...entry, timestamp: entry.timestamp + 100 });
+
+    expect(await storage.read('day-0')).toBeNull();
+    expect(await storage.read('day-1')).not.toBeNull();
+    expect(await storage.read('day-100')).not.toBeNull();
+    expect(Object.keys(localStorage).filter(key => key.startsWith('exchange-rate-cache:')).length).toBe(100);
+  });
+
+  it('should clear only its own entries', async () => {
+    localStorage.setItem('unrelated', 'keep');
+    await storage.write('latest', entry);
+    await storage.clear();
+
+    expect(await storage.read('latest')).toBeNull();
+    expect(localStorage.getItem('unrelated')).toBe('keep');
+  });
+});
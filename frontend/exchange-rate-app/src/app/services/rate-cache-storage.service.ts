@@ -0,0 +1,198 @@
+import { Injectable } from '@angular/core';
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { environment } from '../../environments/environment';
+
+export interface StoredRates {
+  data: ExchangeRateResponse;
+  timestamp: number;
+}
+
+interface EntryAge<K> {
+  key: K;
+  timestamp: number;
+}
+
+/**
+ * Persists exchange rate responses across page reloads and tabs.
+ * Uses IndexedDB where available and falls back to localStorage.
+ * Keeps the most recently written entries only, so long chart ranges and reports do not fill the storage quota.
+ * Storage is best effort: failures are logged and reported as cache misses.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RateCacheStorageService {
+  private readonly DB_NAME = 'exchange-rate-cache';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'responses';
+  private readonly LOCAL_STORAGE_PREFIX = 'exchange-rate-cache:';
+  private readonly MAX_ENTRIES = 100;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  async read(key: string): Promise<StoredRates | null> {
+    const db = await this.openDatabase();
+    if (db) {
+      try {
+        const stored = await this.runRequest<StoredRates | undefined>(db, 'readonly', store => store.get(key));
+        return stored ?? null;
+      } catch (error) {
+        this.logFailure('read', error);
+      }
+    }
+    return this.readLocal(key);
+  }
+
+  async write(key: string, entry: StoredRates): Promise<void> {
+    const db = await this.openDatabase();
+    if (db) {
+      try {
+        await this.runRequest(db, 'readwrite', store => store.put(entry, key));
+        await this.evictDatabase(db);
+        return;
+      } catch (error) {
+        this.logFailure('write', error);
+      }
+    }
+    this.writeLocal(key, entry);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    if (db) {
+      try {
+        await this.runRequest(db, 'readwrite', store => store.clear());
+      } catch (error) {
+        this.logFailure('clear', error);
+      }
+    }
+    this.clearLocal();
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        try {
+          const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+          request.onupgradeneeded = () => request.result.createObjectStore(this.STORE_NAME);
+          request.onsuccess = () => resolve(request.result);
+          // Private browsing modes may refuse IndexedDB, localStorage takes over
+          request.onerror = () => resolve(null);
+          request.onblocked = () => resolve(null);
+        } catch {
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private runRequest<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Delete the oldest entries beyond MAX_ENTRIES in a single transaction
+   */
+  private evictDatabase(db: IDBDatabase): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(this.STORE_NAME);
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        if (countRequest.result <= this.MAX_ENTRIES) {
+          return;
+        }
+        const ages: EntryAge<IDBValidKey>[] = [];
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            ages.push({ key: cursor.primaryKey, timestamp: (cursor.value as Partial<StoredRates>).timestamp ?? 0 });
+            cursor.continue();
+            return;
+          }
+          keysToEvict(ages, this.MAX_ENTRIES).forEach(key => store.delete(key));
+        };
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private readLocal(key: string): StoredRates | null {
+    try {
+      const raw = localStorage.getItem(this.LOCAL_STORAGE_PREFIX + key);
+      return raw ? JSON.parse(raw) as StoredRates : null;
+    } catch (error) {
+      this.logFailure('read', error);
+      return null;
+    }
+  }
+
+  private writeLocal(key: string, entry: StoredRates): void {
+    try {
+      localStorage.setItem(this.LOCAL_STORAGE_PREFIX + key, JSON.stringify(entry));
+      this.evictLocal();
+    } catch (error) {
+      // Quota exceeded or storage disabled
+      this.logFailure('write', error);
+    }
+  }
+
+  private evictLocal(): void {
+    const keys = Object.keys(localStorage).filter(key => key.startsWith(this.LOCAL_STORAGE_PREFIX));
+    if (keys.length <= this.MAX_ENTRIES) {
+      return;
+    }
+    const ages = keys.map((key): EntryAge<string> => {
+      try {
+        return { key, timestamp: (JSON.parse(localStorage.getItem(key) ?? '{}') as Partial<StoredRates>).timestamp ?? 0 };
+      } catch {
+        // Corrupt entries go first
+        return { key, timestamp: 0 };
+      }
+    });
+    keysToEvict(ages, this.MAX_ENTRIES).forEach(key => localStorage.removeItem(key));
+  }
+
+  private clearLocal(): void {
+    try {
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(this.LOCAL_STORAGE_PREFIX))
+        .forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      this.logFailure('clear', error);
+    }
+  }
+
+  private logFailure(operation: string, error: unknown): void {
+    if (!environment.production) {
+      console.warn(`RateCacheStorageService ${operation} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Keys of the least recently written entries that have to go to keep at most `max`
+ */
+function keysToEvict<K>(ages: EntryAge<K>[], max: number): K[] {
+  return [...ages]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, Math.max(0, ages.length - max))
+    .map(age => age.key);
+}
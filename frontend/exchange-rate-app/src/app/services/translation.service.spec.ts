@@ -0,0 +1,50 @@
+import { TranslationService } from './translation.service';
+import { ExchangeRateError } from '../models/exchange-rate-error';
+
+describe('TranslationService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should fill in placeholders in the current language', () => {
+    const service = new TranslationService();
+
+    service.setLanguage('en');
+    expect(service.translate('rates.showing', { shown: 3, total: 31 })).toBe('Showing 3 of 31 currencies');
+
+    service.setLanguage('cs');
+    expect(service.translate('rates.showing', { shown: 3, total: 31 })).toBe('Zobrazeno 3 z 31 měn');
+  });
+
+  it('should format numbers and CNB dates for the current language', () => {
+    const service = new TranslationService();
+
+    service.setLanguage('cs');
+    expect(service.formatNumber(25.345, '1.3-3')).toBe('25,345');
+    expect(service.formatDate('2025-12-05T00:00:00')).toBe('5. 12. 2025');
+
+    service.setLanguage('en');
+    expect(service.formatNumber(25.345, '1.3-3')).toBe('25.345');
+    expect(service.formatDate('2025-12-05T00:00:00')).toBe('5 Dec 2025');
+  });
+
+  it('should keep the chosen language across service instances, as after a page reload', () => {
+    new TranslationService().setLanguage('cs');
+
+    expect(new TranslationService().language()).toBe('cs');
+    expect(document.documentElement.lang).toBe('cs');
+  });
+
+  it('should describe errors in the current language', () => {
+    const service = new TranslationService();
+    service.setLanguage('cs');
+
+    expect(service.describeError(new ExchangeRateError('unknown', 'Server returned code 500', { status: 500 })))
+      .toBe('Server kurzů nemohl požadavek zpracovat (kód 500). Zkuste to prosím později.');
+    expect(service.describeError('boom')).toBe('Došlo k neznámé chybě');
+  });
+});
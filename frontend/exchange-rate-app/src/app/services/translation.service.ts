@@ -0,0 +1,90 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { formatDate, formatNumber, registerLocaleData } from '@angular/common';
+import localeCs from '@angular/common/locales/cs';
+import { DateStyle, dateFormat, Language, LANGUAGES, LOCALE_IDS, MessageKey, TranslateParams, translateMessage } from '../i18n/i18n';
+import { describeError } from '../models/exchange-rate-error';
+import { environment } from '../../environments/environment';
+
+registerLocaleData(localeCs);
+
+/**
+ * Current UI language with translation and locale-aware formatting.
+ * The choice is remembered in localStorage; on the first visit the browser languages decide, Czech by default.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TranslationService {
+  private readonly STORAGE_KEY = 'exchange-rate-language';
+  private readonly current = signal<Language>(this.loadLanguage());
+
+  readonly language = this.current.asReadonly();
+  readonly locale = computed(() => LOCALE_IDS[this.current()]);
+
+  constructor() {
+    this.updateDocumentLanguage();
+  }
+
+  setLanguage(language: Language): void {
+    this.current.set(language);
+    this.updateDocumentLanguage();
+    try {
+      localStorage.setItem(this.STORAGE_KEY, language);
+    } catch (error) {
+      if (!environment.production) {
+        console.warn('Could not save the language', error);
+      }
+    }
+  }
+
+  /**
+   * Text for a key in the current language; reading it inside a computed or template tracks language changes
+   */
+  translate(key: MessageKey, params?: TranslateParams): string {
+    return translateMessage(this.current(), key, params);
+  }
+
+  /**
+   * Format a date, an instant or an API date string (YYYY-MM-DD, optionally with a time) for the current language
+   */
+  formatDate(value: string | number | Date, style: DateStyle = 'date'): string {
+    return formatDate(value, dateFormat(this.current(), style), this.locale());
+  }
+
+  /**
+   * Format a number with the decimal and group separators of the current language
+   * @param digitsInfo as for the number pipe, e.g. '1.3-3'
+   */
+  formatNumber(value: number, digitsInfo?: string): string {
+    return formatNumber(value, this.locale(), digitsInfo);
+  }
+
+  /**
+   * Message for the user in the current language, tailored to the kind of failure
+   */
+  describeError(error: unknown): string {
+    return describeError(error, (key, params) => this.translate(key, params));
+  }
+
+  private loadLanguage(): Language {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (LANGUAGES.includes(stored as Language)) {
+        return stored as Language;
+      }
+    } catch {
+      // Storage disabled, fall back to the browser languages
+    }
+    const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+    const match = preferred
+      .map(tag => tag.slice(0, 2).toLowerCase())
+      .find(code => LANGUAGES.includes(code as Language));
+    return (match as Language | undefined) ?? 'cs';
+  }
+
+  private updateDocumentLanguage(): void {
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = this.current();
+    }
+  }
+}
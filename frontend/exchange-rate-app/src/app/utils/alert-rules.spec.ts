@@ -0,0 +1,57 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { AlertRule, evaluateAlertRules, isNewerFixing, parseAlertRules } from './alert-rules';
+
+describe('alert rules', () => {
+  const previous: ExchangeRateResponse = {
+    date: '2025-12-04',
+    sequenceNumber: 235,
+    rates: [
+      { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 25.4 },
+      { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20 }
+    ]
+  };
+  const fixing: ExchangeRateResponse = {
+    date: '2025-12-05T00:00:00',
+    sequenceNumber: 236,
+    rates: [
+      { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 25.6 },
+      { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20.3 }
+    ]
+  };
+  const rules: AlertRule[] = [
+    { id: 'eur-above', kind: 'above', code: 'EUR', value: 25.5 },
+    { id: 'eur-below', kind: 'below', code: 'EUR', value: 25 },
+    { id: 'usd-change', kind: 'change', code: 'USD', value: 1 },
+    { id: 'eur-change', kind: 'change', code: 'EUR', value: 1 },
+    { id: 'gbp-above', kind: 'above', code: 'GBP', value: 1 },
+    { id: 'new', kind: 'newFixing', code: '', value: 0 }
+  ];
+
+  it('should match thresholds, day over day moves and new fixings', () => {
+    const matches = evaluateAlertRules(rules, { fixing, previous, isNewFixing: true });
+
+    expect(matches.map(match => match.rule.id)).toEqual(['eur-above', 'usd-change', 'new']);
+    expect(matches[0]).toEqual({ rule: rules[0], date: '2025-12-05', sequenceNumber: 236, actual: 25.6 });
+    expect(matches[1].actual).toBeCloseTo(1.5, 10);
+    expect(matches[2].actual).toBeNull();
+  });
+
+  it('should skip change rules without the previous fixing and new fixing rules for the first fixing seen', () => {
+    const matches = evaluateAlertRules(rules, { fixing, previous: null, isNewFixing: false });
+
+    expect(matches.map(match => match.rule.id)).toEqual(['eur-above']);
+  });
+
+  it('should order fixings by date and sequence number', () => {
+    expect(isNewerFixing(fixing, { date: '2025-12-04', sequenceNumber: 240 })).toBe(true);
+    expect(isNewerFixing(fixing, { date: '2025-12-05', sequenceNumber: 235 })).toBe(true);
+    expect(isNewerFixing(fixing, { date: '2025-12-05', sequenceNumber: 236 })).toBe(false);
+    expect(isNewerFixing(fixing, { date: '2025-12-08', sequenceNumber: 1 })).toBe(false);
+  });
+
+  it('should drop malformed rules read from storage', () => {
+    expect(parseAlertRules([rules[0], { id: 'x', kind: 'sideways', code: 'EUR', value: 1 }, { id: 'y', kind: 'above' }, null]))
+      .toEqual([rules[0]]);
+    expect(parseAlertRules({ rules })).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { normalizeIsoDate } from './date-utils';
+import { computeRateChanges } from './rate-change';
+
+/**
+ * above / below - the published rate (CZK for the quoted amount) crosses a threshold,
+ * change - the rate moved by more than a percentage against the previous fixing, in either direction,
+ * newFixing - a fixing newer than any seen before was published
+ */
+export type AlertRuleKind = 'above' | 'below' | 'change' | 'newFixing';
+
+export const ALERT_RULE_KINDS: readonly AlertRuleKind[] = ['above', 'below', 'change', 'newFixing'];
+
+export interface AlertRule {
+  id: string;
+  kind: AlertRuleKind;
+  /** Currency the rule watches; empty for newFixing */
+  code: string;
+  /** Threshold in CZK for above / below, percentage for change; 0 for newFixing */
+  value: number;
+}
+
+export interface AlertMatch {
+  rule: AlertRule;
+  date: string;
+  sequenceNumber: number;
+  /** The published rate for above / below, the percentage change for change; null for newFixing */
+  actual: number | null;
+}
+
+export interface AlertContext {
+  fixing: ExchangeRateResponse;
+  /** Fixing published before it, needed by change rules */
+  previous: ExchangeRateResponse | null;
+  /** Whether the fixing is newer than any seen before, as opposed to the first one ever evaluated */
+  isNewFixing: boolean;
+}
+
+/**
+ * Rules matched by a fixing
+ */
+export function evaluateAlertRules(rules: AlertRule[], { fixing, previous, isNewFixing }: AlertContext): AlertMatch[] {
+  const date = normalizeIsoDate(fixing.date);
+  const changes = previous ? computeRateChanges(fixing.rates, previous.rates) : new Map();
+
+  return rules.flatMap(rule => {
+    const actual = matchedValue(rule, fixing, changes, isNewFixing);
+    return actual === undefined ? [] : [{ rule, date, sequenceNumber: fixing.sequenceNumber, actual }];
+  });
+}
+
+/**
+ * Whether a fixing was published after another one, going by date and then sequence number
+ */
+export function isNewerFixing(fixing: ExchangeRateResponse, than: { date: string; sequenceNumber: number }): boolean {
+  const date = normalizeIsoDate(fixing.date);
+  const otherDate = normalizeIsoDate(than.date);
+  return date > otherDate || (date === otherDate && fixing.sequenceNumber > than.sequenceNumber);
+}
+
+/**
+ * Rules read from storage; anything that is not a well-formed rule is left out
+ */
+export function parseAlertRules(value: unknown): AlertRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((rule): rule is AlertRule =>
+    typeof rule === 'object' && rule !== null &&
+    typeof rule.id === 'string' &&
+    ALERT_RULE_KINDS.includes(rule.kind) &&
+    typeof rule.code === 'string' &&
+    typeof rule.value === 'number' && Number.isFinite(rule.value)
+  );
+}
+
+/**
+ * The value that makes the rule match, null for rules without one, undefined when it does not match
+ */
+function matchedValue(
+  rule: AlertRule,
+  fixing: ExchangeRateResponse,
+  changes: Map<string, { percent: number }>,
+  isNewFixing: boolean
+): number | null | undefined {
+  switch (rule.kind) {
+    case 'newFixing':
+      return isNewFixing ? null : undefined;
+    case 'above':
+    case 'below': {
+      const rate = fixing.rates.find(item => item.code === rule.code)?.rate;
+      if (rate === undefined) {
+        return undefined;
+      }
+      return (rule.kind === 'above' ? rate > rule.value : rate < rule.value) ? rate : undefined;
+    }
+    case 'change': {
+      const percent = changes.get(rule.code)?.percent;
+      return percent !== undefined && Math.abs(percent) > rule.value ? percent : undefined;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { apiEndpoint, AppConfigError, DEFAULT_APP_CONFIG, parseAppConfig } from './app-config';
+
+describe('parseAppConfig', () => {
+  it('should fill omitted settings from the defaults', () => {
+    const config = parseAppConfig({ apiBaseUrl: 'https://api.example.com/api/', features: { export: false } });
+
+    expect(config.apiBaseUrl).toBe('https://api.example.com/api');
+    expect(config.apiVersion).toBe(DEFAULT_APP_CONFIG.apiVersion);
+    expect(config.cache).toEqual(DEFAULT_APP_CONFIG.cache);
+    expect(config.features).toEqual({ ...DEFAULT_APP_CONFIG.features, export: false });
+    expect(apiEndpoint(config, 'exchange-rates')).toBe('https://api.example.com/api/v1.0/exchange-rates');
+  });
+
+  it('should accept an empty object', () => {
+    expect(parseAppConfig({})).toEqual(DEFAULT_APP_CONFIG);
+  });
+
+  it('should report every invalid or unknown setting', () => {
+    let error: unknown;
+    try {
+      parseAppConfig({
+        apiBaseURL: '/api',
+        apiVersion: '1',
+        cache: { persist: 'yes', recheckIntervalMinutes: 0 },
+        features: []
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(AppConfigError);
+    expect((error as AppConfigError).issues).toEqual([
+      'apiBaseURL is not a known setting',
+      'cache.persist must be a boolean',
+      'features must be an object',
+      'apiVersion must look like "v1.0", got "1"',
+      'cache.recheckIntervalMinutes must be greater than 0'
+    ]);
+  });
+
+  it('should reject a configuration that is not an object', () => {
+    expect(() => parseAppConfig('/api')).toThrow(AppConfigError);
+    expect(() => parseAppConfig(null)).toThrow(AppConfigError);
+  });
+});
@@ -0,0 +1,130 @@
+import { InjectionToken } from '@angular/core';
+import { AppConfig, ResponseValidationMode } from '../models/app-config.interface';
+import { environment } from '../../environments/environment';
+
+/**
+ * Used for every setting /config.json leaves out
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  apiBaseUrl: environment.apiBaseUrl,
+  apiVersion: 'v1.0',
+  responseValidation: 'lenient',
+  cache: {
+    persist: true,
+    recheckIntervalMinutes: 5
+  },
+  autoRefresh: {
+    enabled: false,
+    intervalMinutes: 5,
+    autoApply: false
+  },
+  features: {
+    favorites: true,
+    export: true,
+    healthMonitoring: true
+  }
+};
+
+/**
+ * Configuration in effect. The app provides the one AppConfigService loaded at startup,
+ * without a provider the build-time defaults apply.
+ */
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_APP_CONFIG
+});
+
+const API_VERSION_PATTERN = /^v\d+(\.\d+)?$/;
+const RESPONSE_VALIDATION_MODES: readonly ResponseValidationMode[] = ['strict', 'lenient'];
+
+export class AppConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid runtime configuration: ${issues.join('; ')}`);
+    this.name = 'AppConfigError';
+  }
+}
+
+/**
+ * Validate the contents of /config.json and fill in omitted settings from the defaults.
+ * The expected shape and types follow the defaults; unknown keys are rejected so a misspelled setting
+ * does not silently fall back.
+ * @throws AppConfigError listing every problem found
+ */
+export function parseAppConfig(raw: unknown, defaults: AppConfig = DEFAULT_APP_CONFIG): AppConfig {
+  const issues: string[] = [];
+  const config = mergeSection(raw, defaults as unknown as Record<string, unknown>, 'config', issues) as unknown as AppConfig;
+
+  if (!config.apiBaseUrl.trim()) {
+    issues.push('apiBaseUrl must not be empty');
+  }
+  if (!API_VERSION_PATTERN.test(config.apiVersion)) {
+    issues.push(`apiVersion must look like "v1.0", got "${config.apiVersion}"`);
+  }
+  if (!RESPONSE_VALIDATION_MODES.includes(config.responseValidation)) {
+    issues.push(`responseValidation must be one of ${RESPONSE_VALIDATION_MODES.join(', ')}, got "${config.responseValidation}"`);
+  }
+  if (!(config.cache.recheckIntervalMinutes > 0)) {
+    issues.push('cache.recheckIntervalMinutes must be greater than 0');
+  }
+  if (!(config.autoRefresh.intervalMinutes > 0)) {
+    issues.push('autoRefresh.intervalMinutes must be greater than 0');
+  }
+
+  if (issues.length > 0) {
+    throw new AppConfigError(issues);
+  }
+  return { ...config, apiBaseUrl: config.apiBaseUrl.replace(/\/+$/, '') };
+}
+
+/**
+ * Absolute URL of an API resource, e.g. apiEndpoint(config, 'exchange-rates')
+ */
+export function apiEndpoint(config: AppConfig, resource: string): string {
+  return `${config.apiBaseUrl}/${config.apiVersion}/${resource}`;
+}
+
+function mergeSection(
+  raw: unknown,
+  defaults: Record<string, unknown>,
+  path: string,
+  issues: string[]
+): Record<string, unknown> {
+  if (raw === undefined) {
+    return defaults;
+  }
+  if (!isPlainObject(raw)) {
+    issues.push(`${path} must be an object`);
+    return defaults;
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in defaults)) {
+      issues.push(`${settingPath(path, key)} is not a known setting`);
+    }
+  }
+
+  const merged: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = raw[key];
+    const keyPath = settingPath(path, key);
+    if (isPlainObject(fallback)) {
+      merged[key] = mergeSection(value, fallback, keyPath, issues);
+    } else if (value === undefined) {
+      merged[key] = fallback;
+    } else if (typeof value !== typeof fallback || (typeof value === 'number' && !Number.isFinite(value))) {
+      issues.push(`${keyPath} must be a ${typeof fallback}`);
+      merged[key] = fallback;
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function settingPath(section: string, key: string): string {
+  return section === 'config' ? key : `${section}.${key}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,76 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { convertedLinesToCsv, convertInvoiceLines, lookupDates, parseInvoiceLines } from './batch-conversion';
+
+describe('batch conversion', () => {
+  const friday: ExchangeRateResponse = {
+    date: '2025-12-05T00:00:00',
+    sequenceNumber: 236,
+    rates: [
+      { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 },
+      { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 13.542 }
+    ]
+  };
+
+  it('should read pasted lines with a header, Czech dates and decimal commas', () => {
+    const lines = parseInvoiceLines(
+      'Datum;Částka;Měna\n' +
+      '6. 12. 2025;1 250,50;eur\n' +
+      '\n' +
+      '"2025-12-05";10000;JPY\n' +
+      '2025-13-01;5;EUR\n' +
+      '2025-12-05;abc;EUR\n' +
+      '2025-12-24;5;EUR\n',
+      '2025-12-10'
+    );
+
+    expect(lines).toEqual([
+      { line: 2, date: '2025-12-06', amount: 1250.5, currency: 'EUR', issue: null },
+      { line: 4, date: '2025-12-05', amount: 10000, currency: 'JPY', issue: null },
+      { line: 5, date: '2025-13-01', amount: 5, currency: 'EUR', issue: 'invalidDate' },
+      { line: 6, date: '2025-12-05', amount: null, currency: 'EUR', issue: 'invalidAmount' },
+      { line: 7, date: '2025-12-24', amount: 5, currency: 'EUR', issue: 'futureDate' }
+    ]);
+    expect(lookupDates(lines)).toEqual(['2025-12-06', '2025-12-05']);
+  });
+
+  it('should read amounts with grouped thousands', () => {
+    const lines = parseInvoiceLines(
+      '2025-12-05;1 234,56;EUR\n' +
+      '2025-12-05;1.234,56;EUR\n' +
+      '2025-12-05;1,234.56;EUR\n' +
+      '2025-12-05;"1 234,56";EUR\n',
+      '2025-12-10'
+    );
+
+    expect(lines.map(line => line.amount)).toEqual([1234.56, 1234.56, 1234.56, 1234.56]);
+  });
+
+  it('should convert with the applicable fixing per quoted amount and flag what it cannot convert', () => {
+    const lines = parseInvoiceLines('2025-12-06,100,EUR\n2025-12-05,10000,JPY\n2025-12-05,1,XYZ\n2025-12-05,7,CZK\n1991-01-01,1,EUR', '2025-12-10');
+    const fixings = new Map([['2025-12-06', friday], ['2025-12-05', friday], ['1991-01-01', null]]);
+
+    const [eur, jpy, unknown, czk, tooEarly] = convertInvoiceLines(lines, fixings);
+
+    expect(eur).toMatchObject({ fixingDate: '2025-12-05', sequenceNumber: 236, rate: 24.3, rateAmount: 1, issue: null });
+    expect(eur.czkAmount).toBeCloseTo(2430, 10);
+    expect(jpy.czkAmount).toBeCloseTo(1354.2, 10);
+    expect(unknown).toMatchObject({ fixingDate: '2025-12-05', czkAmount: null, issue: 'unknownCurrency' });
+    expect(czk).toMatchObject({ czkAmount: 7, issue: null });
+    expect(tooEarly).toMatchObject({ czkAmount: null, issue: 'noFixing' });
+  });
+
+  it('should write the enriched lines as CSV', () => {
+    const lines = parseInvoiceLines('2025-12-06;100,5;EUR\n2025-12-05;1;XYZ', '2025-12-10');
+    const csv = convertedLinesToCsv(convertInvoiceLines(lines, new Map([['2025-12-06', friday], ['2025-12-05', friday]])), {
+      delimiter: ';',
+      decimalSeparator: ','
+    });
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date;Amount;Currency;Fixing date;Sequence;Rate amount;Rate;CZK amount;Issue',
+      '2025-12-06;100,5;EUR;2025-12-05;236;1;24,3;2442,15;',
+      '2025-12-05;1;XYZ;2025-12-05;236;;;;unknownCurrency',
+      ''
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { BASE_CURRENCY_CODE } from './currency-conversion';
+import { isIsoDate, normalizeIsoDate, todayIsoDate } from './date-utils';
+import { parseDecimal } from './number-parsing';
+import { CsvOptions, DEFAULT_CSV_OPTIONS, formatCsv, formatCsvNumber } from './rate-export';
+
+/**
+ * Why a line could not be converted:
+ * invalidDate / invalidAmount - the field could not be read,
+ * futureDate - no rate applies yet,
+ * noFixing - no fixing was published on or before the date,
+ * unknownCurrency - the applicable fixing does not quote the currency
+ */
+export type BatchIssue = 'invalidDate' | 'invalidAmount' | 'futureDate' | 'noFixing' | 'unknownCurrency';
+
+export interface InvoiceLine {
+  /** Line number in the pasted or uploaded text, starting at 1 */
+  line: number;
+  /** YYYY-MM-DD, or the text as entered when it is not a date */
+  date: string;
+  amount: number | null;
+  currency: string;
+  issue: BatchIssue | null;
+}
+
+export interface ConvertedLine extends InvoiceLine {
+  /** Date of the fixing that applies on date, earlier for weekends and holidays */
+  fixingDate: string | null;
+  sequenceNumber: number | null;
+  /** CZK for rateAmount units of the currency, as published */
+  rate: number | null;
+  rateAmount: number | null;
+  czkAmount: number | null;
+}
+
+const DELIMITERS = [';', '\t', ','];
+const CZECH_DATE_PATTERN = /^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})$/;
+
+/**
+ * Read invoice lines of date, amount and currency from CSV text.
+ * The delimiter is detected from the first line (semicolon, tab or comma), a header line is skipped
+ * and empty lines are ignored. Dates may be written as YYYY-MM-DD or the Czech D. M. YYYY, amounts
+ * with a decimal point or comma and grouped thousands, see parseDecimal.
+ */
+export function parseInvoiceLines(text: string, today: string = todayIsoDate()): InvoiceLine[] {
+  const lines = text.split(/\r?\n/);
+  const delimiter = detectDelimiter(lines.find(line => line.trim() !== '') ?? '');
+  const result: InvoiceLine[] = [];
+
+  lines.forEach((content, index) => {
+    if (content.trim() === '') {
+      return;
+    }
+    const [dateField = '', amountField = '', currencyField = ''] = splitCsvLine(content, delimiter).map(field => field.trim());
+    const date = parseInvoiceDate(dateField);
+    const amount = parseDecimal(amountField);
+
+    // A first line that reads as neither a date nor an amount is a header
+    if (result.length === 0 && date === null && amount === null) {
+      return;
+    }
+
+    result.push({
+      line: index + 1,
+      date: date ?? dateField,
+      amount,
+      currency: currencyField.toUpperCase(),
+      issue: date === null ? 'invalidDate' : date > today ? 'futureDate' : amount === null ? 'invalidAmount' : null
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Dates a fixing has to be looked up for, each once
+ */
+export function lookupDates(lines: InvoiceLine[]): string[] {
+  return [...new Set(lines.filter(line => line.issue === null && line.currency !== BASE_CURRENCY_CODE).map(line => line.date))];
+}
+
+/**
+ * Convert every line with the fixing that applies on its date; CZK lines need no rate
+ * @param fixings applicable fixing by date, null when none could be found
+ */
+export function convertInvoiceLines(lines: InvoiceLine[], fixings: Map<string, ExchangeRateResponse | null>): ConvertedLine[] {
+  return lines.map(line => {
+    const unconverted: ConvertedLine = { ...line, fixingDate: null, sequenceNumber: null, rate: null, rateAmount: null, czkAmount: null };
+    if (line.issue !== null || line.amount === null) {
+      return unconverted;
+    }
+    if (line.currency === BASE_CURRENCY_CODE) {
+      return { ...unconverted, rate: 1, rateAmount: 1, czkAmount: line.amount };
+    }
+
+    const fixing = fixings.get(line.date);
+    if (!fixing) {
+      return { ...unconverted, issue: 'noFixing' };
+    }
+    const fixingDate = normalizeIsoDate(fixing.date);
+    const rate = fixing.rates.find(item => item.code === line.currency);
+    if (!rate) {
+      return { ...unconverted, fixingDate, sequenceNumber: fixing.sequenceNumber, issue: 'unknownCurrency' };
+    }
+    return {
+      ...unconverted,
+      fixingDate,
+      sequenceNumber: fixing.sequenceNumber,
+      rate: rate.rate,
+      rateAmount: rate.amount,
+      czkAmount: line.amount * rate.rate / rate.amount
+    };
+  });
+}
+
+/**
+ * The converted lines as CSV, the input columns followed by the rate used and the CZK amount rounded to hellers
+ */
+export function convertedLinesToCsv(lines: ConvertedLine[], options: CsvOptions = DEFAULT_CSV_OPTIONS): string {
+  const formatNumber = (value: number | null) => value === null ? '' : formatCsvNumber(value, options);
+  return formatCsv([
+    ['Date', 'Amount', 'Currency', 'Fixing date', 'Sequence', 'Rate amount', 'Rate', 'CZK amount', 'Issue'],
+    ...lines.map(line => [
+      line.date,
+      formatNumber(line.amount),
+      line.currency,
+      line.fixingDate ?? '',
+      line.sequenceNumber === null ? '' : String(line.sequenceNumber),
+      formatNumber(line.rateAmount),
+      formatNumber(line.rate),
+      formatNumber(line.czkAmount === null ? null : Math.round(line.czkAmount * 100) / 100),
+      line.issue ?? ''
+    ])
+  ], options);
+}
+
+/**
+ * YYYY-MM-DD for an ISO or Czech (D. M. YYYY) date, null when the text is not a calendar date
+ */
+export function parseInvoiceDate(value: string): string | null {
+  const czech = CZECH_DATE_PATTERN.exec(value);
+  const isoDate = czech ? `${czech[3]}-${czech[2].padStart(2, '0')}-${czech[1].padStart(2, '0')}` : value;
+  return isIsoDate(isoDate) ? isoDate : null;
+}
+
+function detectDelimiter(line: string): string {
+  return DELIMITERS.find(delimiter => line.includes(delimiter)) ?? DEFAULT_CSV_OPTIONS.delimiter;
+}
+
+/**
+ * Split a CSV line on the delimiter, honouring double-quoted fields with "" as an escaped quote
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
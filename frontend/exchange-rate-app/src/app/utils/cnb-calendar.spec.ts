@@ -0,0 +1,68 @@
+import {
+  easterSunday,
+  expectedFixingDate,
+  getCacheExpiry,
+  getFixingFreshness,
+  isCnbBusinessDay,
+  isCzechPublicHoliday,
+  nextBusinessDay,
+  nextPublicationTime,
+  previousBusinessDay
+} from './cnb-calendar';
+
+describe('CNB publication calendar', () => {
+  it('should compute Easter Sunday', () => {
+    expect(easterSunday(2024)).toBe('2024-03-31');
+    expect(easterSunday(2025)).toBe('2025-04-20');
+    expect(easterSunday(2026)).toBe('2026-04-05');
+  });
+
+  it('should recognise fixed and Easter-based public holidays', () => {
+    expect(isCzechPublicHoliday('2025-11-17')).toBe(true);
+    expect(isCzechPublicHoliday('2025-04-18')).toBe(true); // Good Friday
+    expect(isCzechPublicHoliday('2025-04-21')).toBe(true); // Easter Monday
+    expect(isCzechPublicHoliday('2015-04-03')).toBe(false); // Good Friday before 2016
+    expect(isCzechPublicHoliday('2025-11-18')).toBe(false);
+  });
+
+  it('should skip weekends and holidays between business days', () => {
+    expect(isCnbBusinessDay('2025-12-06')).toBe(false);
+    expect(isCnbBusinessDay('2025-12-23')).toBe(true);
+    expect(previousBusinessDay('2025-12-29')).toBe('2025-12-23');
+    expect(nextBusinessDay('2025-12-23')).toBe('2025-12-29');
+  });
+
+  it('should expect today\'s fixing only after 14:30 Prague time', () => {
+    // Winter time, Prague is UTC+1
+    expect(expectedFixingDate(new Date('2025-12-05T13:00:00Z'))).toBe('2025-12-04');
+    expect(expectedFixingDate(new Date('2025-12-05T13:45:00Z'))).toBe('2025-12-05');
+    expect(expectedFixingDate(new Date('2025-12-06T10:00:00Z'))).toBe('2025-12-05');
+  });
+
+  it('should find the next publication across weekends and daylight saving time', () => {
+    expect(nextPublicationTime(new Date('2025-12-05T14:00:00Z')).toISOString()).toBe('2025-12-08T13:30:00.000Z');
+    // Summer time, Prague is UTC+2
+    expect(nextPublicationTime(new Date('2025-07-03T10:00:00Z')).toISOString()).toBe('2025-07-03T12:30:00.000Z');
+    expect(nextPublicationTime(new Date('2025-07-03T13:00:00Z')).toISOString()).toBe('2025-07-04T12:30:00.000Z');
+  });
+
+  it('should report the freshness of a fixing', () => {
+    expect(getFixingFreshness('2025-12-04', new Date('2025-12-05T09:00:00Z'))).toBe('awaiting');
+    expect(getFixingFreshness('2025-12-04', new Date('2025-12-05T13:45:00Z'))).toBe('awaiting');
+    expect(getFixingFreshness('2025-12-04', new Date('2025-12-05T15:00:00Z'))).toBe('stale');
+    expect(getFixingFreshness('2025-12-03', new Date('2025-12-05T09:00:00Z'))).toBe('stale');
+    expect(getFixingFreshness('2025-12-05', new Date('2025-12-05T15:00:00Z'))).toBe('current');
+    expect(getFixingFreshness('2025-12-05', new Date('2025-12-07T10:00:00Z'))).toBe('current');
+  });
+
+  it('should keep cached fixings until the next one is due', () => {
+    const fridayAfternoon = Date.parse('2025-12-05T14:00:00Z');
+    const fridayBeforePublication = Date.parse('2025-12-05T10:00:00Z');
+
+    expect(getCacheExpiry('2025-12-05', fridayAfternoon)).toBe(Date.parse('2025-12-08T13:30:00Z'));
+    expect(getCacheExpiry('2025-12-04', fridayBeforePublication)).toBe(Date.parse('2025-12-05T13:30:00Z'));
+    // Behind schedule: look again shortly
+    expect(getCacheExpiry('2025-12-04', fridayAfternoon)).toBe(fridayAfternoon + 5 * 60 * 1000);
+    expect(getCacheExpiry('2025-12-01', fridayAfternoon, '2025-12-01')).toBe(Number.POSITIVE_INFINITY);
+  });
+});
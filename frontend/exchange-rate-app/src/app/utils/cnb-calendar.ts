@@ -0,0 +1,179 @@
+import { addDays, isWeekend } from './date-utils';
+
+/**
+ * CNB publication calendar.
+ * The CNB publishes one fixing per business day, shortly after 14:30 Prague time,
+ * and skips weekends and Czech public holidays.
+ */
+
+export type FixingFreshness = 'current' | 'awaiting' | 'stale';
+
+const PRAGUE_TIME_ZONE = 'Europe/Prague';
+// Minutes after midnight Prague time
+const PUBLICATION_TIME = 14 * 60 + 30;
+// The fixing usually appears within minutes; after this it counts as late
+const PUBLICATION_GRACE_MINUTES = 30;
+// How often to look again when the published fixing is behind schedule
+const RECHECK_INTERVAL = 5 * 60 * 1000;
+
+// Fixed-date Czech public holidays as MM-DD
+const FIXED_HOLIDAYS = ['01-01', '05-01', '05-08', '07-05', '07-06', '09-28', '10-28', '11-17', '12-24', '12-25', '12-26'];
+// Good Friday has been a public holiday since 2016
+const GOOD_FRIDAY_SINCE = 2016;
+
+const pragueFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: PRAGUE_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * Easter Sunday of the given year as YYYY-MM-DD (anonymous Gregorian algorithm)
+ */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Check whether a YYYY-MM-DD date is a Czech public holiday
+ */
+export function isCzechPublicHoliday(isoDate: string): boolean {
+  if (FIXED_HOLIDAYS.includes(isoDate.substring(5))) {
+    return true;
+  }
+  const year = Number(isoDate.substring(0, 4));
+  const easter = easterSunday(year);
+  if (isoDate === addDays(easter, 1)) {
+    return true;
+  }
+  return year >= GOOD_FRIDAY_SINCE && isoDate === addDays(easter, -2);
+}
+
+/**
+ * Check whether the CNB publishes a fixing on a YYYY-MM-DD date
+ */
+export function isCnbBusinessDay(isoDate: string): boolean {
+  return !isWeekend(isoDate) && !isCzechPublicHoliday(isoDate);
+}
+
+/**
+ * The closest CNB business day strictly before the given YYYY-MM-DD date
+ */
+export function previousBusinessDay(isoDate: string): string {
+  let date = addDays(isoDate, -1);
+  while (!isCnbBusinessDay(date)) {
+    date = addDays(date, -1);
+  }
+  return date;
+}
+
+/**
+ * The closest CNB business day strictly after the given YYYY-MM-DD date
+ */
+export function nextBusinessDay(isoDate: string): string {
+  let date = addDays(isoDate, 1);
+  while (!isCnbBusinessDay(date)) {
+    date = addDays(date, 1);
+  }
+  return date;
+}
+
+/**
+ * Calendar date and minutes after midnight of an instant, in Prague time
+ */
+export function toPragueTime(instant: Date): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    pragueFormatter.formatToParts(instant).map(part => [part.type, part.value])
+  ) as Record<string, string>;
+  return {
+    date: `${parts['year']}-${parts['month']}-${parts['day']}`,
+    minutes: Number(parts['hour']) * 60 + Number(parts['minute'])
+  };
+}
+
+/**
+ * The instant of the given wall-clock time in Prague on a YYYY-MM-DD date
+ */
+export function fromPragueTime(isoDate: string, minutes: number): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const utcGuess = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  // Offset of Prague from UTC at that moment (one or two hours depending on daylight saving time)
+  const prague = toPragueTime(new Date(utcGuess));
+  const [pragueYear, pragueMonth, pragueDay] = prague.date.split('-').map(Number);
+  const pragueAsUtc = Date.UTC(pragueYear, pragueMonth - 1, pragueDay, Math.floor(prague.minutes / 60), prague.minutes % 60);
+  return new Date(utcGuess - (pragueAsUtc - utcGuess));
+}
+
+/**
+ * Date of the most recent fixing that should have been published at the given instant
+ */
+export function expectedFixingDate(now: Date = new Date()): string {
+  const { date, minutes } = toPragueTime(now);
+  return isCnbBusinessDay(date) && minutes >= PUBLICATION_TIME ? date : previousBusinessDay(date);
+}
+
+/**
+ * When the next fixing is expected to be published after the given instant
+ */
+export function nextPublicationTime(now: Date = new Date()): Date {
+  const { date, minutes } = toPragueTime(now);
+  const publicationDate = isCnbBusinessDay(date) && minutes < PUBLICATION_TIME ? date : nextBusinessDay(date);
+  return fromPragueTime(publicationDate, PUBLICATION_TIME);
+}
+
+/**
+ * How up to date a fixing is at the given instant:
+ * - current: it is the most recent fixing the CNB has published
+ * - awaiting: it is the previous business day's fixing and today's is due (or just due) at 14:30
+ * - stale: a newer fixing should already be available
+ */
+export function getFixingFreshness(fixingDate: string, now: Date = new Date()): FixingFreshness {
+  const { date: today, minutes } = toPragueTime(now);
+  const todayIsPending = isCnbBusinessDay(today) && minutes < PUBLICATION_TIME + PUBLICATION_GRACE_MINUTES;
+
+  if (todayIsPending && fixingDate < today && fixingDate >= previousBusinessDay(today)) {
+    return 'awaiting';
+  }
+  return fixingDate >= expectedFixingDate(now) ? 'current' : 'stale';
+}
+
+/**
+ * Until when a fixing fetched at `fetchedAt` can be served from cache, in milliseconds since epoch.
+ * Fixings for past days never change; the latest fixing is valid until the next publication,
+ * and is checked again shortly when it is behind schedule.
+ */
+export function getCacheExpiry(
+  fixingDate: string,
+  fetchedAt: number,
+  requestedDate?: string,
+  recheckInterval: number = RECHECK_INTERVAL
+): number {
+  const fetchTime = new Date(fetchedAt);
+  const { date: today } = toPragueTime(fetchTime);
+
+  if (requestedDate && requestedDate < today) {
+    return Number.POSITIVE_INFINITY;
+  }
+  if (fixingDate < expectedFixingDate(fetchTime)) {
+    return fetchedAt + recheckInterval;
+  }
+  return nextPublicationTime(fetchTime).getTime();
+}
@@ -0,0 +1,90 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import { BASE_CURRENCY_CODE, convertAmount, crossRate, czkPerUnit, rebaseRates } from './currency-conversion';
+import * as fc from 'fast-check';
+
+/**
+ * Property-based tests for currency conversion through CZK cross rates
+ * Feature: currency-converter
+ */
+describe('Currency Conversion Property Tests', () => {
+
+  const rateArbitrary = (code: string) => fc.record({
+    country: fc.constant(`Country ${code}`),
+    currency: fc.constant(`currency ${code}`),
+    amount: fc.constantFrom(1, 100, 1000),
+    code: fc.constant(code),
+    rate: fc.double({ min: 0.001, max: 1000, noNaN: true })
+  });
+
+  const ratesArbitrary: fc.Arbitrary<ExchangeRate[]> = fc.tuple(
+    rateArbitrary('EUR'),
+    rateArbitrary('JPY'),
+    rateArbitrary('USD')
+  ).map(rates => [...rates]);
+
+  const valueArbitrary = fc.double({ min: 0, max: 1_000_000, noNaN: true });
+
+  /**
+   * Converting foreign currency to CZK multiplies by the per-unit rate (rate / amount)
+   */
+  it('should normalize by the CNB amount unit when converting to CZK', () => {
+    fc.assert(fc.property(ratesArbitrary, valueArbitrary, (rates, value) => {
+      for (const rate of rates) {
+        const converted = convertAmount(value, rate.code, BASE_CURRENCY_CODE, rates)!;
+        expect(converted).toBeCloseTo(value * rate.rate / rate.amount, 6);
+      }
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * Converting there and back returns the original value for any currency pair
+   */
+  it('should round-trip any conversion', () => {
+    const codes = ['EUR', 'JPY', 'USD', BASE_CURRENCY_CODE];
+    fc.assert(fc.property(
+      ratesArbitrary,
+      valueArbitrary,
+      fc.constantFrom(...codes),
+      fc.constantFrom(...codes),
+      (rates, value, from, to) => {
+        const there = convertAmount(value, from, to, rates)!;
+        const back = convertAmount(there, to, from, rates)!;
+        expect(back).toBeCloseTo(value, 4);
+      }
+    ), { numRuns: 100 });
+  });
+
+  /**
+   * Cross rates between two foreign currencies are derived from their CZK per-unit rates
+   */
+  it('should compute cross rates through CZK', () => {
+    fc.assert(fc.property(ratesArbitrary, (rates) => {
+      const [eur, jpy] = rates;
+      expect(crossRate('EUR', 'JPY', rates)).toBeCloseTo(czkPerUnit(eur) / czkPerUnit(jpy), 6);
+      expect(crossRate(BASE_CURRENCY_CODE, BASE_CURRENCY_CODE, rates)).toBe(1);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * A table re-based on any quoted currency agrees with the cross rates, with CZK as one of its rows
+   */
+  it('should re-base every rate on the chosen currency', () => {
+    fc.assert(fc.property(ratesArbitrary, fc.constantFrom('EUR', 'JPY', 'USD'), (rates, base) => {
+      const rebased = rebaseRates(rates, base, { country: 'Czech Republic', currency: 'koruna' });
+
+      expect(rebased.map(rate => rate.code).sort()).toEqual(['EUR', 'JPY', 'USD', BASE_CURRENCY_CODE].filter(code => code !== base).sort());
+      for (const rate of rebased) {
+        expect(rate.rate / rate.amount).toBeCloseTo(crossRate(rate.code, base, rates)!, 6);
+      }
+    }), { numRuns: 100 });
+  });
+
+  it('should return null for currencies that are not quoted', () => {
+    const rates: ExchangeRate[] = [
+      { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 15.2 }
+    ];
+    expect(convertAmount(10, 'XYZ', 'CZK', rates)).toBeNull();
+    expect(convertAmount(10, 'CZK', 'XYZ', rates)).toBeNull();
+    expect(convertAmount(100, 'JPY', 'CZK', rates)).toBeCloseTo(15.2, 10);
+  });
+});
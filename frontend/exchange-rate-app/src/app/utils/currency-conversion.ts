@@ -0,0 +1,77 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+
+/**
+ * Currency all CNB rates are quoted against
+ */
+export const BASE_CURRENCY_CODE = 'CZK';
+
+/**
+ * CZK value of a single unit of the foreign currency.
+ * CNB quotes some currencies per 100 or 1000 units, so the rate has to be divided by the amount.
+ */
+export function czkPerUnit(rate: ExchangeRate): number {
+  return rate.rate / rate.amount;
+}
+
+/**
+ * Build a lookup of CZK per single unit for every quoted currency, including CZK itself
+ */
+export function buildUnitRateMap(rates: ExchangeRate[]): Map<string, number> {
+  const unitRates = new Map<string, number>([[BASE_CURRENCY_CODE, 1]]);
+  for (const rate of rates) {
+    if (rate.amount > 0) {
+      unitRates.set(rate.code, czkPerUnit(rate));
+    }
+  }
+  return unitRates;
+}
+
+/**
+ * How many units of `to` one unit of `from` is worth, using CZK cross rates.
+ * Returns null when either currency is not quoted.
+ */
+export function crossRate(from: string, to: string, rates: ExchangeRate[]): number | null {
+  const unitRates = buildUnitRateMap(rates);
+  const fromRate = unitRates.get(from);
+  const toRate = unitRates.get(to);
+  if (fromRate === undefined || toRate === undefined) {
+    return null;
+  }
+  return fromRate / toRate;
+}
+
+/**
+ * Convert a value between two currencies (CZK or any quoted currency).
+ * Returns null when either currency is not quoted.
+ */
+export function convertAmount(value: number, from: string, to: string, rates: ExchangeRate[]): number | null {
+  const rate = crossRate(from, to, rates);
+  return rate === null ? null : value * rate;
+}
+
+/**
+ * Country and currency name of the CZK row in a re-based table, in the language of the UI
+ */
+export type BaseCurrencyNames = Pick<ExchangeRate, 'country' | 'currency'>;
+
+/**
+ * Quote every rate against another base currency instead of CZK, keeping the quoted amounts.
+ * The base currency itself is left out and CZK is added as a row named by `names`.
+ * Returns the rates unchanged for CZK and an empty list when the base currency is not quoted.
+ */
+export function rebaseRates(rates: ExchangeRate[], base: string, names: BaseCurrencyNames): ExchangeRate[] {
+  if (base === BASE_CURRENCY_CODE) {
+    return rates;
+  }
+  const baseRate = rates.find(rate => rate.code === base);
+  if (!baseRate || baseRate.amount <= 0 || baseRate.rate <= 0) {
+    return [];
+  }
+  const baseUnit = czkPerUnit(baseRate);
+  return [
+    ...rates
+      .filter(rate => rate.code !== base)
+      .map(rate => ({ ...rate, rate: rate.rate / baseUnit })),
+    { ...names, amount: 1, code: BASE_CURRENCY_CODE, rate: 1 / baseUnit }
+  ];
+}
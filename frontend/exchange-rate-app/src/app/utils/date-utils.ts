@@ -0,0 +1,66 @@
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Format a Date as YYYY-MM-DD using its local calendar date
+ */
+export function toIsoDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Today's local calendar date as YYYY-MM-DD
+ */
+export function todayIsoDate(): string {
+  return toIsoDate(new Date());
+}
+
+/**
+ * Check that a value is a real calendar date in YYYY-MM-DD format
+ */
+export function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Normalize a Date or a date/date-time string (as returned by the API) to YYYY-MM-DD
+ */
+export function normalizeIsoDate(value: Date | string): string {
+  if (value instanceof Date) {
+    return toIsoDate(value);
+  }
+  return value.substring(0, 10);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar days
+ */
+export function addDays(isoDate: string, days: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return toIsoDate(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar months, clamping to the last day of the target month
+ */
+export function addMonths(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const lastDayOfTargetMonth = new Date(year, month - 1 + months + 1, 0).getDate();
+  return toIsoDate(new Date(year, month - 1 + months, Math.min(day, lastDayOfTargetMonth)));
+}
+
+/**
+ * Check whether a YYYY-MM-DD date falls on a Saturday or Sunday
+ */
+export function isWeekend(isoDate: string): boolean {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const weekday = new Date(year, month - 1, day).getDay();
+  return weekday === 0 || weekday === 6;
+}
@@ -0,0 +1,12 @@
+/**
+ * Let the browser save text content as a file
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has been handled, some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,31 @@
+import { parseDecimal } from './number-parsing';
+
+describe('parseDecimal', () => {
+  it('should read decimal points and commas', () => {
+    expect(parseDecimal('1250.5')).toBe(1250.5);
+    expect(parseDecimal('1250,5')).toBe(1250.5);
+    expect(parseDecimal(' -12 ')).toBe(-12);
+    expect(parseDecimal('+0,25')).toBe(0.25);
+  });
+
+  it('should drop thousands separators in the common invoice formats', () => {
+    expect(parseDecimal('1 234,56')).toBe(1234.56);
+    expect(parseDecimal('1 234,56')).toBe(1234.56);
+    expect(parseDecimal('1.234,56')).toBe(1234.56);
+    expect(parseDecimal('1,234.56')).toBe(1234.56);
+    expect(parseDecimal('1.234.567')).toBe(1234567);
+    expect(parseDecimal('1,234,567')).toBe(1234567);
+    expect(parseDecimal('-1.234,5')).toBe(-1234.5);
+  });
+
+  it('should read a single separator as the decimal one', () => {
+    expect(parseDecimal('1,234')).toBe(1.234);
+    expect(parseDecimal('1.234')).toBe(1.234);
+  });
+
+  it('should reject text that is not a number', () => {
+    for (const text of ['', 'abc', '1,2,3', '12.34.5', '1.23,4.5', '1,234,56', '--1', '1e3', '.5']) {
+      expect(parseDecimal(text)).toBeNull();
+    }
+  });
+});
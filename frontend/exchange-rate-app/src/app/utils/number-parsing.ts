@@ -0,0 +1,25 @@
+// Thousands grouped with points and a decimal comma (1.234,56) or the other way round (1,234.56).
+// A single separator without a decimal part, as in 1,234, is read as the decimal separator.
+const POINT_GROUPED_NUMBER = /^\d{1,3}(\.\d{3})+,\d+$|^\d{1,3}(\.\d{3}){2,}$/;
+const COMMA_GROUPED_NUMBER = /^\d{1,3}(,\d{3})+\.\d+$|^\d{1,3}(,\d{3}){2,}$/;
+const PLAIN_NUMBER = /^\d+(\.\d+)?$/;
+
+/**
+ * Read a number typed by the user or taken from an invoice: a decimal point or comma, and thousands
+ * separated by spaces, points or commas (1 234,56, 1.234,56, 1,234.56). Null when the text is not a number.
+ */
+export function parseDecimal(text: string): number | null {
+  const compact = text.replace(/\s/g, '');
+  const sign = compact.startsWith('-') || compact.startsWith('+') ? compact[0] : '';
+  const digits = compact.substring(sign.length);
+
+  let normalized: string;
+  if (POINT_GROUPED_NUMBER.test(digits)) {
+    normalized = digits.replace(/\./g, '').replace(',', '.');
+  } else if (COMMA_GROUPED_NUMBER.test(digits)) {
+    normalized = digits.replace(/,/g, '');
+  } else {
+    normalized = digits.replace(',', '.');
+  }
+  return PLAIN_NUMBER.test(normalized) ? Number(sign + normalized) : null;
+}
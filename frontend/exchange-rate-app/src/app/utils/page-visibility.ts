@@ -0,0 +1,16 @@
+import { Observable, fromEvent, of } from 'rxjs';
+import { distinctUntilChanged, map, startWith } from 'rxjs/operators';
+
+/**
+ * Whether the page is visible, emitted now and whenever the tab is hidden or shown again
+ */
+export function pageVisibility(doc: Document | undefined = typeof document === 'undefined' ? undefined : document): Observable<boolean> {
+  if (!doc) {
+    return of(true);
+  }
+  return fromEvent(doc, 'visibilitychange').pipe(
+    startWith(null),
+    map(() => doc.visibilityState !== 'hidden'),
+    distinctUntilChanged()
+  );
+}
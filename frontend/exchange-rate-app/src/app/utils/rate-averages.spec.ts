@@ -0,0 +1,56 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { averagesFileName, averagesToCsv, computeAverageRates, periodBounds } from './rate-averages';
+
+describe('rate averages', () => {
+  const responses: ExchangeRateResponse[] = [
+    {
+      date: '2025-03-03T00:00:00',
+      sequenceNumber: 43,
+      rates: [
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 25 },
+        { country: 'Japan', currency: 'yen', amount: 1, code: 'JPY', rate: 0.16 },
+        { country: 'Russia', currency: 'rouble', amount: 100, code: 'RUB', rate: 30 }
+      ]
+    },
+    {
+      date: '2025-03-04T00:00:00',
+      sequenceNumber: 44,
+      rates: [
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 25.5 },
+        { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 17 }
+      ]
+    },
+    {
+      date: '2025-03-05T00:00:00',
+      sequenceNumber: 45,
+      rates: [
+        { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.5 },
+        { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 18 }
+      ]
+    }
+  ];
+
+  it('should average the fixings of every currency per unit of its latest amount', () => {
+    const [eur, jpy, rub] = computeAverageRates(responses);
+
+    expect(eur).toEqual({ code: 'EUR', country: 'EMU', currency: 'euro', amount: 1, average: 25, count: 3 });
+    expect(jpy.amount).toBe(100);
+    expect(jpy.average).toBeCloseTo(17, 10);
+    expect(rub).toMatchObject({ code: 'RUB', count: 1, average: 30 });
+  });
+
+  it('should cover whole calendar months, quarters and years', () => {
+    expect(periodBounds({ kind: 'month', year: 2024, index: 2 })).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+    expect(periodBounds({ kind: 'quarter', year: 2025, index: 4 })).toEqual({ from: '2025-10-01', to: '2025-12-31' });
+    expect(periodBounds({ kind: 'year', year: 2025, index: 1 })).toEqual({ from: '2025-01-01', to: '2025-12-31' });
+  });
+
+  it('should export the averages with the period and the number of fixings', () => {
+    const period = { kind: 'quarter' as const, year: 2025, index: 1 };
+    const lines = averagesToCsv(computeAverageRates(responses), period, { delimiter: ';', decimalSeparator: ',' }).split('\r\n');
+
+    expect(lines[0]).toBe('Period;Country;Currency;Amount;Code;Average rate;Fixings');
+    expect(lines[2]).toBe('2025-Q1;Japan;yen;100;JPY;17;3');
+    expect(averagesFileName(period)).toBe('cnb-average-rates-2025-Q1.csv');
+  });
+});
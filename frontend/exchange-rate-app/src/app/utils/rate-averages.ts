@@ -0,0 +1,112 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { addDays, addMonths, toIsoDate } from './date-utils';
+import { mean } from './rate-statistics';
+import { CsvOptions, DEFAULT_CSV_OPTIONS, formatCsv, formatCsvNumber } from './rate-export';
+
+export type AveragePeriodKind = 'month' | 'quarter' | 'year';
+
+export const AVERAGE_PERIOD_KINDS: readonly AveragePeriodKind[] = ['month', 'quarter', 'year'];
+
+/**
+ * A calendar period; index is the month (1-12) or quarter (1-4) and is not used for a year
+ */
+export interface AveragePeriod {
+  kind: AveragePeriodKind;
+  year: number;
+  index: number;
+}
+
+export interface AverageRate {
+  code: string;
+  country: string;
+  currency: string;
+  /** Units of the currency the average is quoted for: the amount of its most recent fixing in the period */
+  amount: number;
+  average: number;
+  /** Number of fixings the average was computed from */
+  count: number;
+}
+
+const MONTHS_PER_PERIOD: Record<AveragePeriodKind, number> = { month: 1, quarter: 3, year: 12 };
+
+/**
+ * First and last calendar day of a period (YYYY-MM-DD)
+ */
+export function periodBounds(period: AveragePeriod): { from: string; to: string } {
+  const months = MONTHS_PER_PERIOD[period.kind];
+  const firstMonth = period.kind === 'year' ? 0 : (period.index - 1) * months;
+  const from = toIsoDate(new Date(period.year, firstMonth, 1));
+  return { from, to: addDays(addMonths(from, months), -1) };
+}
+
+/**
+ * Short name of a period for file names and exports, e.g. "2025-03", "2025-Q1" or "2025"
+ */
+export function periodLabel(period: AveragePeriod): string {
+  switch (period.kind) {
+    case 'month':
+      return `${period.year}-${String(period.index).padStart(2, '0')}`;
+    case 'quarter':
+      return `${period.year}-Q${period.index}`;
+    case 'year':
+      return String(period.year);
+  }
+}
+
+/**
+ * Arithmetic average of the daily fixings of every currency, counting only days with a published fixing.
+ * Rates are averaged per unit and reported for the most recent quoted amount, so a change of the amount
+ * (e.g. 1 → 100) within the period does not distort the average. Currencies keep the order of the latest fixing,
+ * followed by those that were dropped during the period.
+ */
+export function computeAverageRates(responses: ExchangeRateResponse[]): AverageRate[] {
+  const byCode = new Map<string, { latest: AverageRate; unitRates: number[] }>();
+
+  // Newest first, so the first occurrence of a code carries its latest name and amount
+  for (const response of [...responses].reverse()) {
+    for (const rate of response.rates) {
+      if (rate.amount <= 0) {
+        continue;
+      }
+      const entry = byCode.get(rate.code);
+      if (entry) {
+        entry.unitRates.push(rate.rate / rate.amount);
+      } else {
+        byCode.set(rate.code, {
+          latest: { code: rate.code, country: rate.country, currency: rate.currency, amount: rate.amount, average: 0, count: 0 },
+          unitRates: [rate.rate / rate.amount]
+        });
+      }
+    }
+  }
+
+  return [...byCode.values()].map(({ latest, unitRates }) => ({
+    ...latest,
+    average: mean(unitRates) * latest.amount,
+    count: unitRates.length
+  }));
+}
+
+/**
+ * Average rates as CSV; the period and the number of fixings are columns so the file stands on its own
+ */
+export function averagesToCsv(averages: AverageRate[], period: AveragePeriod, options: CsvOptions = DEFAULT_CSV_OPTIONS): string {
+  const label = periodLabel(period);
+  return formatCsv([
+    ['Period', 'Country', 'Currency', 'Amount', 'Code', 'Average rate', 'Fixings'],
+    ...averages.map(rate => [
+      label,
+      rate.country,
+      rate.currency,
+      formatCsvNumber(rate.amount, options),
+      rate.code,
+      // Three decimals, like the published rates
+      formatCsvNumber(Number(rate.average.toFixed(3)), options),
+      String(rate.count)
+    ])
+  ], options);
+}
+
+export function averagesFileName(period: AveragePeriod): string {
+  return `cnb-average-rates-${periodLabel(period)}.csv`;
+}
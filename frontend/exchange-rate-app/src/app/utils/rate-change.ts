@@ -0,0 +1,32 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+
+export interface RateChange {
+  /** Change in CZK for the currently quoted amount */
+  absolute: number;
+  /** Change in percent of the previous rate */
+  percent: number;
+}
+
+/**
+ * Compute the change of every current rate against the previous fixing.
+ * Rates are compared per unit, so a change of the quoted amount (e.g. 1 → 100) does not show up as a move.
+ * Currencies missing from the previous fixing have no entry.
+ */
+export function computeRateChanges(current: ExchangeRate[], previous: ExchangeRate[]): Map<string, RateChange> {
+  const previousByCode = new Map(previous.map(rate => [rate.code, rate]));
+  const changes = new Map<string, RateChange>();
+
+  for (const rate of current) {
+    const before = previousByCode.get(rate.code);
+    if (!before || before.amount <= 0 || before.rate <= 0) {
+      continue;
+    }
+    const previousRate = before.rate / before.amount * rate.amount;
+    changes.set(rate.code, {
+      absolute: rate.rate - previousRate,
+      percent: (rate.rate - previousRate) / previousRate * 100
+    });
+  }
+
+  return changes;
+}
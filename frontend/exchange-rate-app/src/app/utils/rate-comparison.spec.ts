@@ -0,0 +1,41 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import { biggestMovers, compareFixings } from './rate-comparison';
+
+describe('rate comparison', () => {
+  const earlier: ExchangeRate[] = [
+    { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 25 },
+    { country: 'Japan', currency: 'yen', amount: 1, code: 'JPY', rate: 0.16 },
+    { country: 'Russia', currency: 'rouble', amount: 100, code: 'RUB', rate: 30 },
+    { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20 }
+  ];
+  const later: ExchangeRate[] = [
+    { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.5 },
+    { country: 'Iceland', currency: 'krona', amount: 100, code: 'ISK', rate: 16.5 },
+    { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 14.4 },
+    { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 21 }
+  ];
+
+  it('should compare the currencies quoted on both dates per unit', () => {
+    const { rows } = compareFixings(earlier, later);
+
+    expect(rows.map(row => row.code)).toEqual(['EUR', 'JPY', 'USD']);
+    const yen = rows[1];
+    expect(yen.amount).toBe(100);
+    expect(yen.fromRate).toBeCloseTo(16, 10);
+    expect(yen.absolute).toBeCloseTo(-1.6, 10);
+    expect(yen.percent).toBeCloseTo(-10, 10);
+  });
+
+  it('should list the currencies added to and removed from the CNB list', () => {
+    const { added, removed } = compareFixings(earlier, later);
+
+    expect(added.map(rate => rate.code)).toEqual(['ISK']);
+    expect(removed.map(rate => rate.code)).toEqual(['RUB']);
+  });
+
+  it('should rank the biggest movers in either direction', () => {
+    const { rows } = compareFixings(earlier, later);
+
+    expect(biggestMovers(rows, 2).map(row => row.code)).toEqual(['JPY', 'USD']);
+  });
+});
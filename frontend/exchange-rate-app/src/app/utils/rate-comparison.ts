@@ -0,0 +1,65 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import { computeRateChanges } from './rate-change';
+
+export interface RateComparison {
+  code: string;
+  country: string;
+  currency: string;
+  /** Quoted amount of the later fixing; both rates are for this many units */
+  amount: number;
+  fromRate: number;
+  toRate: number;
+  absolute: number;
+  percent: number;
+}
+
+export interface FixingComparison {
+  /** Currencies quoted on both dates, in the order of the later fixing */
+  rows: RateComparison[];
+  /** Quoted on the later date only */
+  added: ExchangeRate[];
+  /** Quoted on the earlier date only */
+  removed: ExchangeRate[];
+}
+
+/**
+ * Compare the rates of two fixings currency by currency.
+ * Rates are compared per unit, so a change of the quoted amount (e.g. 1 → 100) does not show up as a move.
+ */
+export function compareFixings(from: ExchangeRate[], to: ExchangeRate[]): FixingComparison {
+  const changes = computeRateChanges(to, from);
+  const toCodes = new Set(to.map(rate => rate.code));
+  const fromCodes = new Set(from.map(rate => rate.code));
+
+  const rows: RateComparison[] = [];
+  for (const rate of to) {
+    const change = changes.get(rate.code);
+    if (change) {
+      rows.push({
+        code: rate.code,
+        country: rate.country,
+        currency: rate.currency,
+        amount: rate.amount,
+        fromRate: rate.rate - change.absolute,
+        toRate: rate.rate,
+        absolute: change.absolute,
+        percent: change.percent
+      });
+    }
+  }
+
+  return {
+    rows,
+    added: to.filter(rate => !fromCodes.has(rate.code)),
+    removed: from.filter(rate => !toCodes.has(rate.code))
+  };
+}
+
+/**
+ * Currencies with the largest percentage move in either direction, largest first
+ */
+export function biggestMovers(rows: RateComparison[], count = 5): RateComparison[] {
+  return [...rows]
+    .sort((a, b) => Math.abs(b.percent) - Math.abs(a.percent))
+    .slice(0, count);
+}
@@ -0,0 +1,22 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import { displayRate, toDisplayRates } from './rate-display';
+
+describe('rate display', () => {
+  const yen: ExchangeRate = { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 13.542 };
+
+  it('should quote per single unit and per 1 CZK', () => {
+    const perUnit = displayRate(yen, 'perUnit');
+    const inverse = displayRate(yen, 'inverse');
+
+    expect(perUnit.amount).toBe(1);
+    expect(perUnit.rate).toBeCloseTo(0.13542, 8);
+    expect(inverse.amount).toBe(1);
+    expect(inverse.rate).toBeCloseTo(7.3844, 4);
+  });
+
+  it('should leave published rates untouched', () => {
+    const rates = [yen];
+
+    expect(toDisplayRates(rates, 'published')).toBe(rates);
+  });
+});
@@ -0,0 +1,31 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import { czkPerUnit } from './currency-conversion';
+
+/**
+ * How the rate column is shown:
+ * published - CZK for the amount the CNB quotes (e.g. 100 JPY),
+ * perUnit - CZK for a single unit, comparable across rows,
+ * inverse - units of the foreign currency for 1 CZK
+ */
+export type RateDisplayMode = 'published' | 'perUnit' | 'inverse';
+
+export const RATE_DISPLAY_MODES: readonly RateDisplayMode[] = ['published', 'perUnit', 'inverse'];
+
+/**
+ * The rate as shown in the given mode. In perUnit mode the amount is 1 unit of the currency,
+ * in inverse mode it is the 1 CZK the rate is quoted for.
+ */
+export function displayRate(rate: ExchangeRate, mode: RateDisplayMode): ExchangeRate {
+  switch (mode) {
+    case 'published':
+      return rate;
+    case 'perUnit':
+      return { ...rate, amount: 1, rate: czkPerUnit(rate) };
+    case 'inverse':
+      return { ...rate, amount: 1, rate: rate.amount / rate.rate };
+  }
+}
+
+export function toDisplayRates(rates: ExchangeRate[], mode: RateDisplayMode): ExchangeRate[] {
+  return mode === 'published' ? rates : rates.map(rate => displayRate(rate, mode));
+}
@@ -0,0 +1,67 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { exportFileName, exportRates, toCnbText, toCsv, toJson } from './rate-export';
+import { toDisplayRates } from './rate-display';
+
+describe('rate export', () => {
+  const response: ExchangeRateResponse = {
+    date: '2025-12-05T00:00:00',
+    sequenceNumber: 236,
+    rates: [
+      { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 },
+      { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 13.542 },
+      { country: 'Korea, South', currency: 'won', amount: 100, code: 'KRW', rate: 1.412 }
+    ]
+  };
+
+  it('should write CSV with a header row and quote fields containing the delimiter', () => {
+    expect(toCsv(response.rates)).toBe(
+      'Country,Currency,Amount,Code,Rate\r\n' +
+      'EMU,euro,1,EUR,24.3\r\n' +
+      'Japan,yen,100,JPY,13.542\r\n' +
+      '"Korea, South",won,100,KRW,1.412\r\n'
+    );
+  });
+
+  it('should use a decimal comma with the Czech Excel delimiter', () => {
+    const lines = toCsv(response.rates, { delimiter: ';', decimalSeparator: ',' }).split('\r\n');
+
+    expect(lines[1]).toBe('EMU;euro;1;EUR;24,3');
+    expect(lines[3]).toBe('Korea, South;won;100;KRW;1,412');
+  });
+
+  it('should escape quotes in CSV fields', () => {
+    const rates = [{ country: 'Say "hi"', currency: 'x', amount: 1, code: 'XXX', rate: 1 }];
+
+    expect(toCsv(rates).split('\r\n')[1]).toBe('"Say ""hi""",x,1,XXX,1');
+  });
+
+  it('should write JSON in the shape returned by the API', () => {
+    expect(JSON.parse(toJson(response))).toEqual(response);
+  });
+
+  it('should label inverse and re-based rates', () => {
+    const inverse = { ...response, rates: toDisplayRates(response.rates.slice(0, 1), 'inverse') };
+    const lines = exportRates(inverse, 'csv', undefined, 'inverse').split('\r\n');
+
+    expect(lines[0]).toBe('Country,Currency,CZK,Code,Amount');
+    expect(lines[1]).toBe(`EMU,euro,1,EUR,${1 / 24.3}`);
+    expect(JSON.parse(toJson(inverse, 'inverse')).rateDisplay).toBe('inverse');
+    expect(toCsv(response.rates, undefined, 'published', 'EUR').split('\r\n')[0]).toBe('Country,Currency,Amount,Code,Rate (EUR)');
+  });
+
+  it('should write the CNB daily.txt layout', () => {
+    expect(toCnbText(response)).toBe(
+      '05 Dec 2025 #236\n' +
+      'Country|Currency|Amount|Code|Rate\n' +
+      'EMU|euro|1|EUR|24.300\n' +
+      'Japan|yen|100|JPY|13.542\n' +
+      'Korea, South|won|100|KRW|1.412\n'
+    );
+  });
+
+  it('should dispatch on the format and name files after the fixing date', () => {
+    expect(exportRates(response, 'cnb')).toBe(toCnbText(response));
+    expect(exportFileName('csv', response.date)).toBe('cnb-rates-2025-12-05.csv');
+    expect(exportFileName('cnb', response.date)).toBe('cnb-rates-2025-12-05.txt');
+  });
+});
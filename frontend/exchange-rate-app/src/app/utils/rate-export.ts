@@ -0,0 +1,146 @@
+import { ExchangeRate, ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { normalizeIsoDate } from './date-utils';
+import { RateDisplayMode } from './rate-display';
+import { BASE_CURRENCY_CODE } from './currency-conversion';
+import { MessageKey } from '../i18n/i18n';
+
+export type ExportFormat = 'csv' | 'json' | 'cnb';
+
+export interface CsvOptions {
+  delimiter: string;
+  /** Czech Excel expects a decimal comma together with the semicolon delimiter */
+  decimalSeparator: '.' | ',';
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ',', decimalSeparator: '.' };
+
+// Lets Excel recognise a downloaded CSV file as UTF-8
+export const CSV_BYTE_ORDER_MARK = '\uFEFF';
+
+export interface CsvPreset {
+  id: string;
+  labelKey: MessageKey;
+  options: CsvOptions;
+}
+
+export const CSV_PRESETS: CsvPreset[] = [
+  { id: 'comma', labelKey: 'export.preset.comma', options: DEFAULT_CSV_OPTIONS },
+  { id: 'semicolon', labelKey: 'export.preset.semicolon', options: { delimiter: ';', decimalSeparator: ',' } },
+  { id: 'tab', labelKey: 'export.preset.tab', options: { delimiter: '\t', decimalSeparator: '.' } }
+];
+
+const CNB_HEADER = 'Country|Currency|Amount|Code|Rate';
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { csv: 'csv', json: 'json', cnb: 'txt' };
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  cnb: 'text/plain;charset=utf-8'
+};
+
+/**
+ * Rates as CSV with a header row, quoting fields that contain the delimiter, quotes or line breaks
+ * @param mode how the rates were converted for display, see displayRate
+ * @param base currency the rates are quoted against, see rebaseRates
+ */
+export function toCsv(
+  rates: ExchangeRate[],
+  options: CsvOptions = DEFAULT_CSV_OPTIONS,
+  mode: RateDisplayMode = 'published',
+  base: string = BASE_CURRENCY_CODE
+): string {
+  const formatNumber = (value: number) => formatCsvNumber(value, options);
+  return formatCsv([
+    csvHeader(mode, base),
+    ...rates.map(rate => [rate.country, rate.currency, formatNumber(rate.amount), rate.code, formatNumber(rate.rate)])
+  ], options);
+}
+
+/**
+ * Join rows of fields into CSV lines, quoting fields that contain the delimiter, quotes or line breaks
+ */
+export function formatCsv(rows: string[][], options: CsvOptions = DEFAULT_CSV_OPTIONS): string {
+  return rows
+    .map(fields => fields.map(field => quoteCsvField(field, options.delimiter)).join(options.delimiter))
+    .join('\r\n') + '\r\n';
+}
+
+export function formatCsvNumber(value: number, options: CsvOptions = DEFAULT_CSV_OPTIONS): string {
+  return String(value).replace('.', options.decimalSeparator);
+}
+
+/**
+ * Rates as JSON in the shape returned by the API; converted rates are labelled with their display mode and base
+ */
+export function toJson(
+  response: ExchangeRateResponse,
+  mode: RateDisplayMode = 'published',
+  base: string = BASE_CURRENCY_CODE
+): string {
+  return JSON.stringify({
+    ...response,
+    ...(mode === 'published' ? {} : { rateDisplay: mode }),
+    ...(base === BASE_CURRENCY_CODE ? {} : { base })
+  }, null, 2);
+}
+
+/**
+ * Rates in the layout of the CNB daily.txt file, e.g.
+ * 05 Dec 2025 #236
+ * Country|Currency|Amount|Code|Rate
+ * EMU|euro|1|EUR|24.300
+ */
+export function toCnbText(response: ExchangeRateResponse): string {
+  const [year, month, day] = normalizeIsoDate(response.date).split('-');
+  const header = `${day} ${MONTHS[Number(month) - 1]} ${year} #${response.sequenceNumber}`;
+  const rows = response.rates.map(rate =>
+    [rate.country, rate.currency, rate.amount, rate.code, rate.rate.toFixed(3)].join('|')
+  );
+  return [header, CNB_HEADER, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Serialize a response in the given format.
+ * The CNB layout has no place for a display mode or base, so it should only be used for published CZK rates.
+ */
+export function exportRates(
+  response: ExchangeRateResponse,
+  format: ExportFormat,
+  csvOptions: CsvOptions = DEFAULT_CSV_OPTIONS,
+  mode: RateDisplayMode = 'published',
+  base: string = BASE_CURRENCY_CODE
+): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(response.rates, csvOptions, mode, base);
+    case 'json':
+      return toJson(response, mode, base);
+    case 'cnb':
+      return toCnbText(response);
+  }
+}
+
+export function exportFileName(format: ExportFormat, date: string): string {
+  return `cnb-rates-${normalizeIsoDate(date)}.${FILE_EXTENSIONS[format]}`;
+}
+
+export function exportMimeType(format: ExportFormat): string {
+  return MIME_TYPES[format];
+}
+
+/**
+ * Inverse rates read as "1 CZK = Amount units of Code"; a base other than CZK is named in the header
+ */
+function csvHeader(mode: RateDisplayMode, base: string): string[] {
+  if (mode === 'inverse') {
+    return ['Country', 'Currency', base, 'Code', 'Amount'];
+  }
+  return ['Country', 'Currency', 'Amount', 'Code', base === BASE_CURRENCY_CODE ? 'Rate' : `Rate (${base})`];
+}
+
+function quoteCsvField(field: string, delimiter: string): string {
+  return field.includes(delimiter) || /["\r\n]/.test(field)
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+}
@@ -0,0 +1,54 @@
+import { ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { normalizeIsoDate } from './date-utils';
+
+export interface RatePoint {
+  date: string;
+  sequenceNumber: number;
+  amount: number;
+  rate: number;
+}
+
+export interface RateSeries {
+  code: string;
+  points: RatePoint[];
+}
+
+/**
+ * Extract one time series per currency code from fixings ordered by date.
+ * Fixings that do not quote a currency leave a gap in its series.
+ */
+export function buildRateSeries(responses: ExchangeRateResponse[], codes: string[]): RateSeries[] {
+  return codes.map(code => ({
+    code,
+    points: responses.flatMap(response => {
+      const rate = response.rates.find(item => item.code === code);
+      return rate
+        ? [{
+          date: normalizeIsoDate(response.date),
+          sequenceNumber: response.sequenceNumber,
+          amount: rate.amount,
+          rate: rate.rate
+        }]
+        : [];
+    })
+  }));
+}
+
+/**
+ * Express every point as the percentage change from the first point of its series,
+ * so currencies of very different magnitude can share one axis
+ */
+export function toPercentChange(series: RateSeries): RateSeries {
+  const first = series.points[0];
+  if (!first) {
+    return series;
+  }
+  const base = first.rate / first.amount;
+  return {
+    code: series.code,
+    points: series.points.map(point => ({
+      ...point,
+      rate: (point.rate / point.amount - base) / base * 100
+    }))
+  };
+}
@@ -0,0 +1,134 @@
+import { RatePoint } from './rate-series';
+import { addDays } from './date-utils';
+import { computeRateStatistics } from './rate-statistics';
+import * as fc from 'fast-check';
+
+/**
+ * Property-based tests for per-currency statistics over a range of fixings
+ * Feature: rate-statistics
+ */
+describe('Rate Statistics Property Tests', () => {
+
+  const rateValueArbitrary = fc.double({ min: 0.001, max: 10000, noNaN: true });
+
+  // Consecutive fixings of one currency, quoted for the same amount
+  const pointsArbitrary = (values: fc.Arbitrary<number[]>): fc.Arbitrary<RatePoint[]> =>
+    fc.tuple(values, fc.constantFrom(1, 100, 1000)).map(([rates, amount]) => rates.map((rate, index) => ({
+      date: addDays('2025-01-01', index),
+      sequenceNumber: index + 1,
+      amount,
+      rate
+    })));
+
+  const seriesArbitrary = pointsArbitrary(fc.array(rateValueArbitrary, { minLength: 1, maxLength: 60 }));
+
+  /**
+   * Every central value lies between the extremes, and the extremes are values of the series on their dates
+   */
+  it('should keep mean and median between the minimum and maximum', () => {
+    fc.assert(fc.property(seriesArbitrary, points => {
+      const stats = computeRateStatistics(points)!;
+      const tolerance = stats.max.value * 1e-9;
+
+      expect(stats.count).toBe(points.length);
+      expect(stats.min.value).toBeLessThanOrEqual(stats.median);
+      expect(stats.median).toBeLessThanOrEqual(stats.max.value);
+      expect(stats.mean).toBeGreaterThanOrEqual(stats.min.value - tolerance);
+      expect(stats.mean).toBeLessThanOrEqual(stats.max.value + tolerance);
+      for (const extreme of [stats.min, stats.max]) {
+        const point = points.find(item => item.date === extreme.date)!;
+        expect(Math.abs(point.rate - extreme.value)).toBeLessThanOrEqual(tolerance);
+      }
+      expect(points.every(point => point.rate >= stats.min.value - tolerance && point.rate <= stats.max.value + tolerance)).toBe(true);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * A flat rate does not vary and never falls
+   */
+  it('should report no dispersion for a constant rate', () => {
+    fc.assert(fc.property(rateValueArbitrary, fc.integer({ min: 1, max: 60 }), (rate, count) => {
+      const stats = computeRateStatistics(constantSeries(rate, count))!;
+
+      expect(stats.standardDeviation).toBeCloseTo(0, 6);
+      expect(stats.volatility).toBeCloseTo(0, 6);
+      expect(stats.maxDrawdown.percent).toBeCloseTo(0, 6);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * Scaling every rate scales the level statistics and leaves the relative ones unchanged
+   */
+  it('should scale level statistics and keep returns, volatility and drawdown', () => {
+    fc.assert(fc.property(seriesArbitrary, fc.double({ min: 0.01, max: 100, noNaN: true }), (points, factor) => {
+      const stats = computeRateStatistics(points)!;
+      const scaled = computeRateStatistics(points.map(point => ({ ...point, rate: point.rate * factor })))!;
+
+      expect(scaled.mean / factor).toBeCloseTo(stats.mean, 6);
+      expect(scaled.median / factor).toBeCloseTo(stats.median, 6);
+      expect(scaled.standardDeviation / factor).toBeCloseTo(stats.standardDeviation, 6);
+      expect(scaled.volatility).toBeCloseTo(stats.volatility, 6);
+      expect(scaled.maxDrawdown.percent).toBeCloseTo(stats.maxDrawdown.percent, 6);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * The drawdown is a decline from an earlier peak and never exceeds 100 %; a rising rate has none
+   */
+  it('should measure the drawdown from an earlier peak', () => {
+    fc.assert(fc.property(seriesArbitrary, points => {
+      const { maxDrawdown } = computeRateStatistics(points)!;
+
+      expect(maxDrawdown.percent).toBeGreaterThanOrEqual(0);
+      expect(maxDrawdown.percent).toBeLessThan(100);
+      expect(maxDrawdown.peak.date <= maxDrawdown.trough.date).toBe(true);
+      expect(maxDrawdown.peak.value).toBeGreaterThanOrEqual(maxDrawdown.trough.value);
+
+      const rising = [...points].sort((a, b) => a.rate - b.rate).map((point, index) => ({ ...point, date: points[index].date }));
+      expect(computeRateStatistics(rising)!.maxDrawdown.percent).toBe(0);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * A change of the quoted amount is not a move of the rate
+   */
+  it('should compare rates per unit when the quoted amount changes', () => {
+    const stats = computeRateStatistics([
+      { date: '2025-01-01', sequenceNumber: 1, amount: 1, rate: 0.15 },
+      { date: '2025-01-02', sequenceNumber: 2, amount: 100, rate: 15 }
+    ])!;
+
+    expect(stats.amount).toBe(100);
+    expect(stats.min.value).toBeCloseTo(15, 10);
+    expect(stats.max.value).toBeCloseTo(15, 10);
+    expect(stats.volatility).toBeCloseTo(0, 10);
+  });
+
+  it('should compute the statistics the way a spreadsheet does', () => {
+    const points = [10, 12, 9, 11].map((rate, index) => ({ date: addDays('2025-01-01', index), sequenceNumber: index + 1, amount: 1, rate }));
+    const stats = computeRateStatistics(points)!;
+
+    expect(stats.mean).toBeCloseTo(10.5, 10);
+    expect(stats.median).toBeCloseTo(10.5, 10);
+    expect(stats.standardDeviation).toBeCloseTo(Math.sqrt(5 / 3), 10);
+    expect(stats.max).toEqual({ value: 12, date: '2025-01-02' });
+    expect(stats.maxDrawdown).toEqual({
+      percent: 25,
+      peak: { value: 12, date: '2025-01-02' },
+      trough: { value: 9, date: '2025-01-03' }
+    });
+  });
+
+  it('should return null without any fixings', () => {
+    expect(computeRateStatistics([])).toBeNull();
+  });
+
+  function constantSeries(rate: number, count: number): RatePoint[] {
+    return Array.from({ length: count }, (_, index) => ({
+      date: addDays('2025-01-01', index),
+      sequenceNumber: index + 1,
+      amount: 1,
+      rate
+    }));
+  }
+});
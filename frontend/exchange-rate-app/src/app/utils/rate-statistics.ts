@@ -0,0 +1,120 @@
+import { RatePoint } from './rate-series';
+
+/** A value of the series together with the fixing date it was published on */
+export interface DatedValue {
+  value: number;
+  date: string;
+}
+
+export interface Drawdown {
+  /** Largest decline from a preceding peak, in percent of that peak (0 when the rate never fell) */
+  percent: number;
+  peak: DatedValue;
+  trough: DatedValue;
+}
+
+export interface RateStatistics {
+  /** Number of fixings the statistics are computed from */
+  count: number;
+  /** Units of the currency every value is quoted for: the amount of the most recent fixing */
+  amount: number;
+  min: DatedValue;
+  max: DatedValue;
+  mean: number;
+  median: number;
+  /** Sample standard deviation of the rates */
+  standardDeviation: number;
+  /** Sample standard deviation of the returns between consecutive fixings, in percent (not annualised) */
+  volatility: number;
+  maxDrawdown: Drawdown;
+}
+
+/**
+ * Statistics of one currency over a series of fixings ordered by date, null for an empty series.
+ * Rates are compared per unit and reported for the amount of the most recent fixing,
+ * so a change of the quoted amount (e.g. 1 → 100) does not distort them.
+ */
+export function computeRateStatistics(points: RatePoint[]): RateStatistics | null {
+  const last = points[points.length - 1];
+  if (!last) {
+    return null;
+  }
+  const amount = last.amount;
+  const values: DatedValue[] = points.map(point => ({ value: point.rate / point.amount * amount, date: point.date }));
+  const rates = values.map(item => item.value);
+
+  let min = values[0];
+  let max = values[0];
+  for (const item of values) {
+    if (item.value < min.value) {
+      min = item;
+    }
+    if (item.value > max.value) {
+      max = item;
+    }
+  }
+
+  return {
+    count: values.length,
+    amount,
+    min,
+    max,
+    mean: mean(rates),
+    median: median(rates),
+    standardDeviation: standardDeviation(rates),
+    volatility: standardDeviation(dailyReturns(rates)) * 100,
+    maxDrawdown: maxDrawdown(values)
+  };
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? NaN : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Sample standard deviation (n - 1 in the denominator, like STDEV in spreadsheets); 0 for fewer than two values
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  const squares = values.reduce((sum, value) => sum + (value - average) ** 2, 0);
+  return Math.sqrt(squares / (values.length - 1));
+}
+
+/**
+ * Relative change from each value to the next, e.g. 0.01 for a rise of 1 %
+ */
+export function dailyReturns(values: number[]): number[] {
+  return values.slice(1).map((value, index) => value / values[index] - 1);
+}
+
+/**
+ * Largest peak-to-trough decline of a non-empty series
+ */
+export function maxDrawdown(values: DatedValue[]): Drawdown {
+  let peak = values[0];
+  let worst: Drawdown = { percent: 0, peak, trough: peak };
+
+  for (const item of values) {
+    if (item.value > peak.value) {
+      peak = item;
+    }
+    const percent = peak.value > 0 ? (peak.value - item.value) / peak.value * 100 : 0;
+    if (percent > worst.percent) {
+      worst = { percent, peak, trough: item };
+    }
+  }
+
+  return worst;
+}
@@ -0,0 +1,65 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import {
+  compareRates,
+  formatRangeFilters,
+  matchesRanges,
+  parseRangeFilters,
+  parseSortKeys,
+  SortKey,
+  toggleSortKey
+} from './rate-table';
+
+describe('rate table', () => {
+  const rates: ExchangeRate[] = [
+    { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 },
+    { country: 'Japan', currency: 'yen', amount: 100, code: 'JPY', rate: 13.542 },
+    { country: 'Hungary', currency: 'forint', amount: 100, code: 'HUF', rate: 6.31 },
+    { country: 'USA', currency: 'dollar', amount: 1, code: 'USD', rate: 20.814 },
+    { country: 'Brazil', currency: 'real', amount: 1, code: 'BRL', rate: 3.9 }
+  ];
+
+  function sortedCodes(keys: SortKey[]): string[] {
+    return [...rates].sort((a, b) => compareRates(a, b, keys, new Map())).map(rate => rate.code);
+  }
+
+  it('should break ties on the first key with the next one', () => {
+    expect(sortedCodes([{ field: 'amount', direction: 'desc' }, { field: 'rate', direction: 'asc' }]))
+      .toEqual(['HUF', 'JPY', 'BRL', 'USD', 'EUR']);
+  });
+
+  it('should sort by the rate of a single unit', () => {
+    expect(sortedCodes([{ field: 'rate', direction: 'asc' }])).toEqual(['BRL', 'HUF', 'JPY', 'USD', 'EUR']);
+    expect(sortedCodes([{ field: 'unitRate', direction: 'asc' }])).toEqual(['HUF', 'JPY', 'BRL', 'USD', 'EUR']);
+  });
+
+  it('should replace the sort on a plain click and extend it on Shift+click', () => {
+    const byCountry: SortKey[] = [{ field: 'country', direction: 'asc' }];
+
+    expect(toggleSortKey(byCountry, 'country', false)).toEqual([{ field: 'country', direction: 'desc' }]);
+    expect(toggleSortKey(byCountry, 'rate', false)).toEqual([{ field: 'rate', direction: 'asc' }]);
+
+    const both = toggleSortKey(byCountry, 'rate', true);
+    expect(both).toEqual([{ field: 'country', direction: 'asc' }, { field: 'rate', direction: 'asc' }]);
+    expect(toggleSortKey(both, 'rate', true)).toEqual([{ field: 'country', direction: 'asc' }, { field: 'rate', direction: 'desc' }]);
+  });
+
+  it('should keep rates within every filtered range', () => {
+    const filters = { rate: { min: 10, max: 25 }, amount: { min: 100, max: 100 } };
+
+    expect(rates.filter(rate => matchesRanges(rate, filters)).map(rate => rate.code)).toEqual(['JPY']);
+    expect(rates.filter(rate => matchesRanges(rate, { unitRate: { min: null, max: 1 } })).map(rate => rate.code))
+      .toEqual(['JPY', 'HUF']);
+  });
+
+  it('should read sort keys and filters written to the query string', () => {
+    const filters = { rate: { min: 20, max: null }, amount: { min: 100, max: 100 } };
+
+    expect(formatRangeFilters(filters)).toBe('rate:20..,amount:100');
+    expect(parseRangeFilters('rate:20..,amount:100')).toEqual(filters);
+    expect(parseRangeFilters('rate:abc,bogus:1,unitRate:..0.5')).toEqual({ unitRate: { min: null, max: 0.5 } });
+    expect(parseSortKeys('amount:desc,bogus:asc,amount:asc,code')).toEqual([
+      { field: 'amount', direction: 'desc' },
+      { field: 'code', direction: 'asc' }
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { ExchangeRate } from '../models/exchange-rate.interface';
+import { czkPerUnit } from './currency-conversion';
+import { RateChange } from './rate-change';
+
+export type SortField = 'country' | 'currency' | 'amount' | 'code' | 'rate' | 'unitRate' | 'change' | 'changePercent';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+/** Columns the numeric filters apply to */
+export type RangeField = 'rate' | 'unitRate' | 'amount';
+
+/** Inclusive bounds, null leaves that side open */
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+export type RangeFilters = Partial<Record<RangeField, NumericRange>>;
+
+export const SORT_FIELDS: readonly SortField[] = ['country', 'currency', 'amount', 'code', 'rate', 'unitRate', 'change', 'changePercent'];
+export const RANGE_FIELDS: readonly RangeField[] = ['rate', 'unitRate', 'amount'];
+
+/**
+ * Compare two rates by each sort key in turn, the first key deciding unless it ties
+ */
+export function compareRates(a: ExchangeRate, b: ExchangeRate, keys: readonly SortKey[], changes: Map<string, RateChange>): number {
+  for (const key of keys) {
+    const comparison = compareByKey(a, b, key, changes);
+    if (comparison !== 0) {
+      return comparison;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Sort keys after a click on a column header.
+ * A plain click sorts by that column alone, toggling the direction when it already was the first key;
+ * with Shift the column is added as the next key, or its direction toggled when it is one already.
+ */
+export function toggleSortKey(keys: readonly SortKey[], field: SortField, additive: boolean): SortKey[] {
+  const existing = keys.find(key => key.field === field);
+  const toggled: SortKey = { field, direction: existing?.direction === 'asc' ? 'desc' : 'asc' };
+
+  if (additive) {
+    return existing ? keys.map(key => key.field === field ? toggled : key) : [...keys, { field, direction: 'asc' }];
+  }
+  return [keys[0]?.field === field ? toggled : { field, direction: 'asc' }];
+}
+
+export function rangeValue(rate: ExchangeRate, field: RangeField): number {
+  switch (field) {
+    case 'rate':
+      return rate.rate;
+    case 'unitRate':
+      return czkPerUnit(rate);
+    case 'amount':
+      return rate.amount;
+  }
+}
+
+export function matchesRanges(rate: ExchangeRate, filters: RangeFilters): boolean {
+  return RANGE_FIELDS.every(field => {
+    const range = filters[field];
+    if (!range) {
+      return true;
+    }
+    const value = rangeValue(rate, field);
+    return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+  });
+}
+
+/**
+ * Read sort keys from the query string, e.g. "rate:desc,code:asc".
+ * Unknown fields and repeated ones are left out.
+ */
+export function parseSortKeys(param: string): SortKey[] {
+  const keys: SortKey[] = [];
+  for (const part of param.split(',')) {
+    const [field, direction] = part.split(':');
+    if (SORT_FIELDS.includes(field as SortField) && !keys.some(key => key.field === field)) {
+      keys.push({ field: field as SortField, direction: direction === 'desc' ? 'desc' : 'asc' });
+    }
+  }
+  return keys;
+}
+
+export function formatSortKeys(keys: readonly SortKey[]): string {
+  return keys.map(key => `${key.field}:${key.direction}`).join(',');
+}
+
+/**
+ * Read numeric filters from the query string, e.g. "rate:20..30,amount:100".
+ * Either bound of a range may be omitted ("rate:20.."); malformed parts are left out.
+ */
+export function parseRangeFilters(param: string): RangeFilters {
+  const filters: RangeFilters = {};
+  for (const part of param.split(',')) {
+    const [field, bounds = ''] = part.split(':');
+    if (!RANGE_FIELDS.includes(field as RangeField)) {
+      continue;
+    }
+    const [min, max = min] = bounds.split('..');
+    const range = { min: parseBound(min), max: parseBound(max) };
+    if (range.min !== undefined && range.max !== undefined && (range.min !== null || range.max !== null)) {
+      filters[field as RangeField] = range as NumericRange;
+    }
+  }
+  return filters;
+}
+
+export function formatRangeFilters(filters: RangeFilters): string {
+  return RANGE_FIELDS
+    .filter(field => filters[field])
+    .map(field => {
+      const { min, max } = filters[field]!;
+      return min !== null && min === max ? `${field}:${min}` : `${field}:${min ?? ''}..${max ?? ''}`;
+    })
+    .join(',');
+}
+
+function compareByKey(a: ExchangeRate, b: ExchangeRate, { field, direction }: SortKey, changes: Map<string, RateChange>): number {
+  let comparison: number;
+
+  if (field === 'change' || field === 'changePercent') {
+    const property = field === 'change' ? 'absolute' : 'percent';
+    const aChange = changes.get(a.code)?.[property];
+    const bChange = changes.get(b.code)?.[property];
+    // Currencies without a previous fixing always go last
+    if (aChange === undefined || bChange === undefined) {
+      return (aChange === undefined ? 1 : 0) - (bChange === undefined ? 1 : 0);
+    }
+    comparison = aChange - bChange;
+  } else if (field === 'country' || field === 'currency' || field === 'code') {
+    comparison = a[field].toLowerCase().localeCompare(b[field].toLowerCase());
+  } else {
+    comparison = rangeValue(a, field) - rangeValue(b, field);
+  }
+
+  return direction === 'asc' ? comparison : -comparison;
+}
+
+/**
+ * null for an empty (open) bound, undefined for one that is not a number
+ */
+function parseBound(value: string): number | null | undefined {
+  if (value.trim() === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
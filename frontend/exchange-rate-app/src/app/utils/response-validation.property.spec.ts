@@ -0,0 +1,106 @@
+import { ExchangeRate, ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { ResponseValidationError, validateExchangeRateResponse } from './response-validation';
+import * as fc from 'fast-check';
+
+/**
+ * Property-based tests for runtime validation of exchange rate responses
+ * Feature: response-validation
+ */
+describe('Response Validation Property Tests', () => {
+
+  const rateArbitrary: fc.Arbitrary<ExchangeRate> = fc.record({
+    country: fc.string({ minLength: 1, maxLength: 30 }).filter(s => s.trim().length > 0),
+    currency: fc.string({ minLength: 1, maxLength: 30 }).filter(s => s.trim().length > 0),
+    amount: fc.constantFrom(1, 100, 1000),
+    code: fc.stringMatching(/^[A-Z]{3}$/),
+    rate: fc.double({ min: 0.001, max: 10000, noNaN: true })
+  });
+
+  const responseArbitrary: fc.Arbitrary<ExchangeRateResponse> = fc.record({
+    date: fc.date({ min: new Date('1991-01-01'), max: new Date('2030-12-31'), noInvalidDate: true })
+      .map(d => d.toISOString().split('T')[0] + 'T00:00:00'),
+    sequenceNumber: fc.integer({ min: 1, max: 260 }),
+    rates: fc.uniqueArray(rateArbitrary, { selector: rate => rate.code, minLength: 1, maxLength: 30 })
+  });
+
+  // Each corruption breaks exactly one field of a rate
+  const corruptions: [string, (rate: ExchangeRate) => unknown][] = [
+    ['rate', rate => ({ ...rate, rate: String(rate.rate) })],
+    ['rate', rate => ({ ...rate, rate: -rate.rate })],
+    ['rate', rate => ({ ...rate, rate: Number.NaN })],
+    ['amount', rate => ({ ...rate, amount: -rate.amount })],
+    ['amount', rate => ({ ...rate, amount: 1.5 })],
+    ['code', rate => ({ ...rate, code: rate.code.toLowerCase() })],
+    ['country', rate => ({ ...rate, country: '  ' })],
+    ['currency', rate => ({ ...rate, currency: undefined })]
+  ];
+
+  const corruptedArbitrary = responseArbitrary.chain(response => fc.record({
+    response: fc.constant(response),
+    index: fc.nat({ max: response.rates.length - 1 }),
+    corruption: fc.constantFrom(...corruptions)
+  }));
+
+  /**
+   * A well-formed response passes unchanged in both modes
+   */
+  it('should accept any well-formed response as is', () => {
+    fc.assert(fc.property(responseArbitrary, fc.constantFrom('strict' as const, 'lenient' as const), (response, mode) => {
+      const result = validateExchangeRateResponse(response, mode);
+
+      expect(result.response).toEqual(response);
+      expect(result.issues).toEqual([]);
+      expect(result.droppedRows).toEqual([]);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * Lenient mode drops exactly the malformed rate and reports where it was
+   */
+  it('should drop only the malformed rate in lenient mode', () => {
+    fc.assert(fc.property(corruptedArbitrary, ({ response, index, corruption: [field, corrupt] }) => {
+      const rates = response.rates.map((rate, i) => i === index ? corrupt(rate) : rate);
+
+      const result = validateExchangeRateResponse({ ...response, rates }, 'lenient');
+
+      expect(result.droppedRows).toEqual([index]);
+      expect(result.response.rates).toEqual(response.rates.filter((_, i) => i !== index));
+      expect(result.issues.map(issue => issue.path)).toEqual([`rates[${index}].${field}`]);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * Strict mode rejects the whole response for any malformed rate
+   */
+  it('should reject the whole response in strict mode', () => {
+    fc.assert(fc.property(corruptedArbitrary, ({ response, index, corruption: [field, corrupt] }) => {
+      const rates = response.rates.map((rate, i) => i === index ? corrupt(rate) : rate);
+
+      let error: unknown;
+      try {
+        validateExchangeRateResponse({ ...response, rates }, 'strict');
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect((error as ResponseValidationError).issues.map(issue => issue.path)).toEqual([`rates[${index}].${field}`]);
+    }), { numRuns: 100 });
+  });
+
+  /**
+   * Later occurrences of a currency code are dropped, the first one is kept
+   */
+  it('should keep the first of duplicate currency codes', () => {
+    fc.assert(fc.property(responseArbitrary, response => {
+      const rates = [...response.rates, { ...response.rates[0], rate: response.rates[0].rate * 2 }];
+
+      const result = validateExchangeRateResponse({ ...response, rates }, 'lenient');
+
+      expect(result.response.rates).toEqual(response.rates);
+      expect(result.issues).toEqual([
+        { path: `rates[${response.rates.length}].code`, message: `duplicate currency code "${response.rates[0].code}"` }
+      ]);
+    }), { numRuns: 100 });
+  });
+});
@@ -0,0 +1,56 @@
+import { droppedRowCount, formatIssue, ResponseValidationError, validateExchangeRateResponse } from './response-validation';
+
+describe('validateExchangeRateResponse', () => {
+  const euro = { country: 'EMU', currency: 'euro', amount: 1, code: 'EUR', rate: 24.3 };
+
+  function issuesOf(raw: unknown): string[] {
+    try {
+      validateExchangeRateResponse(raw, 'strict');
+    } catch (error) {
+      return (error as ResponseValidationError).issues.map(formatIssue);
+    }
+    return [];
+  }
+
+  it('should describe what is wrong with each field', () => {
+    expect(issuesOf({
+      date: '2025-12-05T00:00:00',
+      sequenceNumber: 236,
+      rates: [euro, { country: 'USA', currency: 'dollar', amount: 0, code: 'usd', rate: '20.7' }]
+    })).toEqual([
+      'rates[1].amount: expected a positive integer, got 0 (number)',
+      'rates[1].code: expected a three-letter currency code, got "usd" (string)',
+      'rates[1].rate: expected a positive number, got "20.7" (string)'
+    ]);
+  });
+
+  it('should count each dropped rate once', () => {
+    const { issues } = validateExchangeRateResponse({
+      date: '2025-12-05',
+      sequenceNumber: 236,
+      rates: [euro, { country: 'USA', currency: 'dollar', amount: 0, code: 'usd', rate: 20 }, { ...euro, rate: -1 }]
+    });
+
+    expect(issues.length).toBe(4);
+    expect(droppedRowCount(issues)).toBe(2);
+  });
+
+  it('should reject an unusable response in lenient mode too', () => {
+    expect(() => validateExchangeRateResponse({ date: '2025-02-30', sequenceNumber: 1, rates: [euro] }, 'lenient'))
+      .toThrow('date: expected a date as YYYY-MM-DD, got "2025-02-30" (string)');
+    expect(() => validateExchangeRateResponse({ date: '2025-12-05', sequenceNumber: 1, rates: null }, 'lenient'))
+      .toThrow('rates: expected an array, got null');
+    expect(() => validateExchangeRateResponse('<html>', 'lenient'))
+      .toThrow('expected an object, got "<html>" (string)');
+  });
+
+  it('should leave out fields that are not part of a rate', () => {
+    const { response } = validateExchangeRateResponse({
+      date: '2025-12-05',
+      sequenceNumber: 236,
+      rates: [{ ...euro, validFor: '2025-12-05' }]
+    });
+
+    expect(response.rates).toEqual([euro]);
+  });
+});
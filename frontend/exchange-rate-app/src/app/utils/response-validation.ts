@@ -0,0 +1,149 @@
+import { ExchangeRate, ExchangeRateResponse } from '../models/exchange-rate.interface';
+import { ResponseValidationMode } from '../models/app-config.interface';
+import { isIsoDate, normalizeIsoDate } from './date-utils';
+
+export interface ValidationIssue {
+  /** Location in the payload, e.g. "rates[3].rate" */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  response: ExchangeRateResponse;
+  /** Everything that was wrong, including the rows that were dropped in lenient mode */
+  issues: ValidationIssue[];
+  /** Indexes of the rows left out of the response */
+  droppedRows: number[];
+}
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+const ROW_PATH_PATTERN = /^rates\[(\d+)\]/;
+
+export class ResponseValidationError extends Error {
+  override readonly name = 'ResponseValidationError';
+
+  constructor(readonly issues: ValidationIssue[]) {
+    super(`Malformed exchange rate response: ${issues.map(formatIssue).join('; ')}`);
+  }
+}
+
+/**
+ * Check an API payload against ExchangeRateResponse before it reaches the cache and the UI.
+ * Strict mode rejects the response on any issue. Lenient mode drops malformed rates and reports them,
+ * but still rejects a response whose date, sequence number or rate list is unusable.
+ * @throws ResponseValidationError listing every issue found
+ */
+export function validateExchangeRateResponse(raw: unknown, mode: ResponseValidationMode = 'lenient'): ValidationResult {
+  if (!isRecord(raw)) {
+    throw new ResponseValidationError([{ path: '', message: `expected an object, got ${describeValue(raw)}` }]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { date, sequenceNumber, rates } = raw;
+
+  if (typeof date !== 'string' || !isApiDate(date)) {
+    issues.push({ path: 'date', message: `expected a date as YYYY-MM-DD, got ${describeValue(date)}` });
+  }
+  if (typeof sequenceNumber !== 'number' || !Number.isInteger(sequenceNumber) || sequenceNumber < 0) {
+    issues.push({ path: 'sequenceNumber', message: `expected a non-negative integer, got ${describeValue(sequenceNumber)}` });
+  }
+  if (!Array.isArray(rates)) {
+    issues.push({ path: 'rates', message: `expected an array, got ${describeValue(rates)}` });
+  }
+  if (issues.length > 0 || !Array.isArray(rates)) {
+    throw new ResponseValidationError(issues);
+  }
+
+  const valid: ExchangeRate[] = [];
+  const droppedRows: number[] = [];
+  const seenCodes = new Set<string>();
+
+  rates.forEach((row: unknown, index: number) => {
+    const rowIssues = validateRate(row, `rates[${index}]`, seenCodes);
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues);
+      droppedRows.push(index);
+    } else {
+      const rate = row as ExchangeRate;
+      seenCodes.add(rate.code);
+      valid.push({ country: rate.country, currency: rate.currency, amount: rate.amount, code: rate.code, rate: rate.rate });
+    }
+  });
+
+  if (mode === 'strict' && issues.length > 0) {
+    throw new ResponseValidationError(issues);
+  }
+
+  return {
+    response: { date: date as string, sequenceNumber: sequenceNumber as number, rates: valid },
+    issues,
+    droppedRows
+  };
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Number of rates the issues were found in, i.e. the rows lenient mode left out
+ */
+export function droppedRowCount(issues: ValidationIssue[]): number {
+  return new Set(issues.map(issue => ROW_PATH_PATTERN.exec(issue.path)?.[1]).filter(index => index !== undefined)).size;
+}
+
+function validateRate(row: unknown, path: string, seenCodes: Set<string>): ValidationIssue[] {
+  if (!isRecord(row)) {
+    return [{ path, message: `expected an object, got ${describeValue(row)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { country, currency, amount, code, rate } = row;
+
+  if (typeof country !== 'string' || !country.trim()) {
+    issues.push({ path: `${path}.country`, message: `expected a non-empty string, got ${describeValue(country)}` });
+  }
+  if (typeof currency !== 'string' || !currency.trim()) {
+    issues.push({ path: `${path}.currency`, message: `expected a non-empty string, got ${describeValue(currency)}` });
+  }
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+    issues.push({ path: `${path}.amount`, message: `expected a positive integer, got ${describeValue(amount)}` });
+  }
+  if (typeof code !== 'string' || !CURRENCY_CODE_PATTERN.test(code)) {
+    issues.push({ path: `${path}.code`, message: `expected a three-letter currency code, got ${describeValue(code)}` });
+  } else if (seenCodes.has(code)) {
+    issues.push({ path: `${path}.code`, message: `duplicate currency code "${code}"` });
+  }
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+    issues.push({ path: `${path}.rate`, message: `expected a positive number, got ${describeValue(rate)}` });
+  }
+  return issues;
+}
+
+// The API sends dates as YYYY-MM-DD, optionally followed by a time
+function isApiDate(value: string): boolean {
+  return isIsoDate(normalizeIsoDate(value)) && (value.length === 10 || value[10] === 'T');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (typeof value === 'string') {
+    return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}" (string)`;
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  return `${String(value)} (${typeof value})`;
+}